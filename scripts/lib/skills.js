@@ -0,0 +1,148 @@
+// Reading source/_data/skills.yml, shared by skill-tree.js and static-graphs.js
+
+const LEVELS = ['learning', 'familiar', 'proficient', 'expert']
+const FIELDS = ['description', 'level', 'learned', 'icon', 'topics', 'children']
+const DATE_PATTERN = /^\d{4}-\d{2}(-\d{2})?$/
+
+/**
+ * YAML-style path of a key, e.g. 我的技能樹.children["Node.js"]
+ */
+function joinPath(path, key) {
+  const segment = /^[^.\s[\]"]+$/.test(key) ? key : `[${JSON.stringify(key)}]`
+  return path && !segment.startsWith('[') ? `${path}.${segment}` : `${path}${segment}`
+}
+
+function describe(value) {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'a list'
+  return typeof value === 'string' ? JSON.stringify(value) : typeof value
+}
+
+function isPlainObject(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+}
+
+/**
+ * Validates a map of skill name -> skill and returns it in the shape the
+ * component reads, collecting one message per problem into `errors`
+ */
+function normalizeSkills(skills, path, errors) {
+  const result = {}
+  for (const [name, skill] of Object.entries(skills)) {
+    const at = joinPath(path, name)
+    if (name.trim() === '') {
+      errors.push(`${at}: skill names cannot be empty`)
+      continue
+    }
+    // A bare `name:` is a skill without any details
+    if (skill === null) {
+      result[name] = {}
+      continue
+    }
+    if (!isPlainObject(skill)) {
+      errors.push(`${at}: expected a skill with fields, got ${describe(skill)}`)
+      continue
+    }
+
+    const node = {}
+    for (const [field, value] of Object.entries(skill)) {
+      const fieldAt = joinPath(at, field)
+      if (!FIELDS.includes(field)) {
+        errors.push(`${fieldAt}: unknown field, expected one of ${FIELDS.join(', ')}`)
+      } else if (field === 'children') {
+        if (value === null) continue
+        if (!isPlainObject(value)) {
+          errors.push(`${fieldAt}: expected a map of skills, got ${describe(value)}`)
+        } else {
+          node.children = normalizeSkills(value, fieldAt, errors)
+        }
+      } else if (field === 'level') {
+        if (!LEVELS.includes(value)) {
+          errors.push(`${fieldAt}: expected one of ${LEVELS.join(', ')}, got ${describe(value)}`)
+        } else {
+          node.level = value
+        }
+      } else if (field === 'topics') {
+        if (!Array.isArray(value) || !value.every(topic => typeof topic === 'string' && topic.trim() !== '')) {
+          errors.push(`${fieldAt}: expected a list of tag or category names, got ${describe(value)}`)
+        } else {
+          node.topics = value
+        }
+      } else if (field === 'learned') {
+        // YAML reads a full date such as 2020-09-01 as a Date
+        const date = value instanceof Date ? value.toISOString().slice(0, 10) : value
+        if (typeof date !== 'string' || !DATE_PATTERN.test(date)) {
+          errors.push(`${fieldAt}: expected YYYY-MM or YYYY-MM-DD, got ${describe(value)}`)
+        } else {
+          node.learned = date
+        }
+      } else if (typeof value !== 'string') {
+        errors.push(`${fieldAt}: expected text, got ${describe(value)}`)
+      } else {
+        node[field] = value
+      }
+    }
+    result[name] = node
+  }
+  return result
+}
+
+/**
+ * Terms a tag or category answers to: its whole name and, for names such as
+ * 競程-圖論, every part between dashes
+ */
+function termsOf(name) {
+  const lower = name.toLowerCase()
+  return [lower, ...lower.split('-').map(part => part.trim()).filter(Boolean)]
+}
+
+/**
+ * Replaces `topics` on every skill with `related`: the tags and categories
+ * named by the skill or its topics, and the posts filed under them, newest first
+ */
+function linkSkills(tree, locals, urlFor) {
+  const taxonomies = [
+    ...locals.tags.map(tag => ({ kind: 'tags', model: tag })),
+    ...locals.categories.map(category => ({ kind: 'categories', model: category }))
+  ].map(entry => ({ ...entry, terms: termsOf(entry.model.name) }))
+
+  const link = skills => {
+    for (const [name, skill] of Object.entries(skills)) {
+      const wanted = [name, ...(skill.topics || [])].map(term => term.toLowerCase())
+      delete skill.topics
+
+      const related = { posts: [], tags: [], categories: [] }
+      const posts = new Map()
+      for (const { kind, model, terms } of taxonomies) {
+        if (!wanted.some(term => terms.includes(term))) continue
+        related[kind].push({ name: model.name, url: urlFor(model.path) })
+        model.posts.forEach(post => posts.set(post.path, post))
+      }
+      related.posts = [...posts.values()]
+        .sort((a, b) => b.date.valueOf() - a.date.valueOf())
+        .map(post => ({ title: post.title, url: urlFor(post.path) }))
+
+      if (related.posts.length + related.tags.length + related.categories.length > 0) {
+        skill.related = related
+      }
+      if (skill.children) link(skill.children)
+    }
+  }
+
+  link(tree)
+  return tree
+}
+
+/**
+ * The skills in the shape the component reads, or the list of problems in them
+ */
+function readSkills(skills) {
+  const errors = []
+  if (!isPlainObject(skills)) {
+    errors.push(`expected a map of skills at the top level, got ${describe(skills)}`)
+    return { tree: {}, errors }
+  }
+  return { tree: normalizeSkills(skills, '', errors), errors }
+}
+
+module.exports = { readSkills, linkSkills }
@@ -0,0 +1,21 @@
+/* global hexo */
+// Checks source/_data/skills.yml and publishes it as /skills.json for the
+// skill tree on the About page (source/components/about). The MDX renderer
+// hydrates components without props, so the tree loads this file itself.
+// Every skill is also linked to the tags, categories and posts that cover it,
+// so the tree follows the blog as posts are added.
+
+const { linkSkills, readSkills } = require('./lib/skills')
+
+hexo.extend.generator.register('skill-tree', locals => {
+  const skills = locals.data.skills
+  if (skills === undefined) return []
+
+  const { tree, errors } = readSkills(skills)
+  if (errors.length > 0) {
+    throw new Error(`Invalid source/_data/skills.yml:\n${errors.map(error => `  ${error}`).join('\n')}`)
+  }
+
+  const urlFor = hexo.extend.helper.get('url_for').bind(hexo)
+  return { path: 'skills.json', data: JSON.stringify(linkSkills(tree, locals, urlFor)) }
+})
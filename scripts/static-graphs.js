@@ -0,0 +1,103 @@
+/* global hexo */
+// Draws every MDX-imported component that exports `renderStaticGraph` as an
+// inline SVG in front of its hydration placeholder, so readers without
+// JavaScript, feed readers and search engines see the graph too. In the
+// browser the component moves the SVG into its canvas and replaces it once the
+// canvas scrolls into view (source/components/visualizer/lazy.ts). A component
+// can also export `renderStaticContent` for HTML placed after the placeholder,
+// such as a table, which it removes once mounted.
+
+const fs = require('fs')
+const Module = require('module')
+const path = require('path')
+const { readSkills } = require('./lib/skills')
+
+const EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js']
+// hexo-renderer-mdx numbers its placeholders in the order of the file's imports
+const IMPORT_PATTERN = /^import\s+(?:[\s\S]*?\s+from\s+)?['"]([^'"]+)['"]/gm
+const FENCE_PATTERN = /^```[\s\S]*?^```/gm
+const PLACEHOLDER_PATTERN = /<div data-mdx-component="mdx-cmp-[0-9a-f]+-(\d+)"><\/div>/g
+
+// Bundled components, dropped before every generate so `hexo server` picks up edits
+const components = new Map()
+hexo.on('generateBefore', () => components.clear())
+
+/**
+ * The file an import such as '../components/8-CP-tarjan' points at
+ */
+function resolveImport(spec, from) {
+  if (!spec || !spec.startsWith('.')) return null
+  const base = path.resolve(path.dirname(from), spec)
+  const candidates = [
+    base,
+    ...EXTENSIONS.map(extension => base + extension),
+    ...EXTENSIONS.map(extension => path.join(base, `index${extension}`))
+  ]
+  return candidates.find(file => fs.existsSync(file) && fs.statSync(file).isFile()) || null
+}
+
+/**
+ * Bundles a component for Node with the esbuild that hexo-renderer-mdx uses, and returns its exports
+ */
+function loadComponent(file) {
+  if (!components.has(file)) {
+    const { outputFiles } = require('esbuild').buildSync({
+      entryPoints: [file],
+      bundle: true,
+      platform: 'node',
+      format: 'cjs',
+      jsx: 'automatic',
+      external: ['react', 'react-dom', 'cytoscape'],
+      write: false,
+      logLevel: 'silent'
+    })
+    const mod = new Module(file, module)
+    mod.filename = file
+    mod.paths = Module._nodeModulePaths(path.dirname(file))
+    mod._compile(outputFiles[0].text, file)
+    components.set(file, mod.exports)
+  }
+  return components.get(file)
+}
+
+/**
+ * The files in source/_data as components expect them; skill-tree.js reports bad skills
+ */
+function readSiteData() {
+  const data = { ...hexo.locals.get('data') }
+  if (data.skills !== undefined) {
+    const { tree, errors } = readSkills(data.skills)
+    data.skills = errors.length > 0 ? undefined : tree
+  }
+  return data
+}
+
+hexo.extend.filter.register('after_post_render', data => {
+  if (!data.source.endsWith('.mdx') || !data.content.includes('data-mdx-component')) return data
+
+  const mdxFile = path.join(hexo.source_dir, data.source)
+  // Code samples can contain import lines that are not part of the MDX module
+  const source = fs.readFileSync(mdxFile, 'utf8').replace(FENCE_PATTERN, '')
+  const imports = [...source.matchAll(IMPORT_PATTERN)].map(match => match[1])
+  const context = { data: readSiteData() }
+
+  data.content = data.content.replace(PLACEHOLDER_PATTERN, (placeholder, index) => {
+    const file = resolveImport(imports[index - 1], mdxFile)
+    if (!file) return placeholder
+
+    try {
+      const { renderStaticGraph, renderStaticContent } = loadComponent(file)
+      const svg = typeof renderStaticGraph === 'function' ? renderStaticGraph(context) : ''
+      const html = typeof renderStaticContent === 'function' ? renderStaticContent(context) : ''
+      return [
+        svg ? `<div data-static-graph="">${svg}</div>` : '',
+        placeholder,
+        html ? `<div data-static-content="">${html}</div>` : ''
+      ].join('')
+    } catch (error) {
+      hexo.log.warn(`No static graph for ${path.relative(hexo.base_dir, file)}: ${error.message}`)
+      return placeholder
+    }
+  })
+  return data
+})
@@ -1,44 +1,198 @@
-import React, { useEffect, useRef, useState, useMemo, CSSProperties } from 'react'
-import cytoscape, { Core } from 'cytoscape'
+import React, { useEffect, useId, useRef, useState, useMemo, CSSProperties } from 'react'
+import { Core, ElementDefinition, LayoutOptions, StylesheetStyle } from 'cytoscape'
+import {
+  BasePalette,
+  CodePanel,
+  ControlsBar,
+  BASE_PALETTES,
+  BORDER,
+  CytoscapeCanvas,
+  DEFAULT_LOCALE,
+  EdgePattern,
+  FocusRing,
+  Legend,
+  LegendItem,
+  Locale,
+  Message,
+  Narration,
+  STYLES as BASE_STYLES,
+  ScreenReaderTable,
+  ThemeMode,
+  ViewControls,
+  VisualState,
+  applyVisualState,
+  buildAnimatedSvg,
+  createBaseStylesheet,
+  createClassTracker,
+  createEdgeHighlight,
+  createTranslator,
+  downloadBlob,
+  downloadUrl,
+  formatMessage,
+  isFormField,
+  renderGraphSvg,
+  renderSnapshot,
+  useFullscreen,
+  useLocale,
+  useStepper,
+  useThemeMode,
+  withPageLifecycle
+} from '../visualizer'
+import {
+  DEFAULT_TRAVERSAL,
+  EDGE_TYPES,
+  EVENT_TYPES,
+  Event,
+  NeighborOrder,
+  SOURCE_CODE,
+  TraversalOptions,
+  classifyEdges,
+  edgeId
+} from './tarjan'
+import { MESSAGES, STRINGS, StringKey } from './strings'
 
 // ============================================================================
 // Types
 // ============================================================================
 
-type ColorPalette = {
-  node: string
-  nodeVisiting: string
-  nodeCurrent: string
-  nodeVisited: string
-  edgeDefault: string
+type ColorPalette = BasePalette & {
   tree: string
   back: string
   forward: string
   cross: string
+  bridge: string
+  articulation: string
+  onStack: string
+  components: string[]
 }
 
-type Event = {
-  id: string
-  type: string
-  status?: string
-  parent?: number | null
+type EdgeScheme = 'standard' | 'colorblind'
+
+type Translate = (key: StringKey, params?: Message['params']) => string
+
+type EdgeType = typeof EDGE_TYPES[keyof typeof EDGE_TYPES]
+
+type SchemeColors = Pick<ColorPalette, 'tree' | 'back' | 'forward' | 'cross' | 'bridge' | 'articulation'>
+
+type CallFrame = {
+  u: number
+  fa: number | null
+  v: number | null
+  child: number
+}
+
+type InputFormat = 'edges' | 'header' | 'adjacency' | 'dot'
+
+type ParseOptions = {
+  nodeCount: number
+  oneIndexed: boolean
+  isDirected: boolean
+}
+
+type ParsedGraph = {
+  nodes: number[]
+  edges: Array<[number, number]>
+  weights: Array<number | null>
+  directed?: boolean
+}
+
+// Input errors keep their key so they can be shown in any language
+type ParseError = Message & {
+  line?: number
+}
+
+type ParseResult = {
+  graph: ParsedGraph | null
+  errors: ParseError[]
 }
 
-type ControlsProps = {
-  onNext: () => void
-  onReset: () => void
-  isComplete: boolean
+type SharedState = {
+  nodes: number[]
+  edges: Array<[number, number]>
+  weights: Array<number | null>
+  isDirected: boolean
+  isSccMode: boolean
+  traversal: TraversalOptions
+  step: number
+}
+
+type LayoutName = 'breadthfirst' | 'circle' | 'cose' | 'dfs-tree'
+
+type DfsTreeLayout = {
+  positions: NodePositions
+  treeEdges: Set<string>
+}
+
+type TraversalSettingsProps = {
+  t: Translate
+  nodes: number[]
+  traversal: TraversalOptions
+  onTraversalChange: (traversal: TraversalOptions) => void
+  layout: LayoutName
+  onLayoutChange: (layout: LayoutName) => void
+}
+
+type EditTool = 'move' | 'addNode' | 'connect'
+
+type GraphEdit =
+  | { kind: 'addNode', position: { x: number, y: number } }
+  | { kind: 'addEdge', source: number, target: number }
+  | { kind: 'remove', nodeIds: number[], edgeIds: string[] }
+
+type NodePositions = Record<string, { x: number, y: number }>
+
+type EditToolbarProps = {
+  t: Translate
+  tool: EditTool
+  onToolChange: (tool: EditTool) => void
+  onDeleteSelected: () => void
+}
+
+type TarjanVisualizationProps = {
+  // Names this instance in the URL hash; defaults to its position on the page
+  id?: string
+  // Defaults to the language of the surrounding page
+  locale?: Locale
+}
+
+type TarjanVisualState = VisualState & {
+  stack: number[]
+  components: number[][]
+  callStack: CallFrame[]
+}
+
+type ActionButtonsProps = {
+  t: Translate
   isDirected: boolean
   onToggleDirection: () => void
+  isSccMode: boolean
+  onToggleScc: () => void
+  onCopyLink: () => void
+  linkStatus: string
+  // False for graphs too large for a link
+  canShare: boolean
+  onExportPng: () => void
+  onExportFrames: () => void
+  onExportTrace: () => void
+  isExporting: boolean
+  isEditMode: boolean
+  onToggleEditMode: () => void
+  isPerformanceMode: boolean
+  // Hidden for directed graphs, which have no bridges
+  onJumpToBridge: (() => void) | null
+  hasNextBridge: boolean
 }
 
-type LegendProps = {
-  palette: ColorPalette
+type CallStackPanelProps = {
+  t: Translate
+  callStack: CallFrame[]
 }
 
-type LegendData = {
-  type: string
-  color: string
+type SccPanelProps = {
+  t: Translate
+  stack: number[]
+  components: number[][]
+  palette: ColorPalette
 }
 
 // ============================================================================
@@ -62,485 +216,1643 @@ const GRAPH_CONFIG = {
   ] as Array<[number, number]>
 }
 
-const EDGE_TYPES = {
-  TREE: 'tree',
-  BACK: 'back',
-  FORWARD: 'forward',
-  CROSS: 'cross'
-}
-
-const DEFAULT_COLORS: ColorPalette = {
-  node: '#60a5fa',
-  nodeVisiting: '#fbbf24',
-  nodeCurrent: '#f97316',
-  nodeVisited: '#9ca3af',
-  edgeDefault: '#9ca3af',
-  tree: '#22c55e',
-  back: '#ef4444',
-  forward: '#3b82f6',
-  cross: '#a855f7'
-}
-
-const STYLES: Record<string, CSSProperties | Record<string, CSSProperties>> = {
-  container: {
-    width: '100%',
-    height: '420px',
-    border: '1px solid #ddd',
-    display: 'block',
-    position: 'relative' as const
+const EDGE_SCHEMES: Record<EdgeScheme, SchemeColors> = {
+  standard: {
+    tree: '#22c55e',
+    back: '#ef4444',
+    forward: '#3b82f6',
+    cross: '#a855f7',
+    bridge: '#facc15',
+    articulation: '#dc2626'
   },
-  controls: {
-    marginTop: 8,
+  // Okabe-Ito colors, which stay apart under the common forms of color blindness
+  colorblind: {
+    tree: '#e69f00',
+    back: '#56b4e9',
+    forward: '#009e73',
+    cross: '#cc79a7',
+    bridge: '#f0e442',
+    articulation: '#d55e00'
+  }
+}
+
+// Every edge class also has its own line style, so the classes stay apart without color
+const EDGE_PATTERNS: Record<EdgeType, EdgePattern> = {
+  [EDGE_TYPES.TREE]: 'solid',
+  [EDGE_TYPES.BACK]: 'dashed',
+  [EDGE_TYPES.FORWARD]: 'dotted',
+  [EDGE_TYPES.CROSS]: 'dash-dot'
+}
+
+// Names of the edge classes in the screen reader mirror
+const EDGE_CLASS_LABELS: Record<string, StringKey> = {
+  [EDGE_TYPES.TREE]: 'legendTree',
+  [EDGE_TYPES.BACK]: 'legendBack',
+  [EDGE_TYPES.FORWARD]: 'legendForward',
+  [EDGE_TYPES.CROSS]: 'legendCross',
+  [EVENT_TYPES.BRIDGE]: 'legendBridge'
+}
+
+const EDGE_SCHEME_OPTIONS: Array<{ scheme: EdgeScheme, label: StringKey }> = [
+  { scheme: 'standard', label: 'schemeStandard' },
+  { scheme: 'colorblind', label: 'schemeColorblind' }
+]
+
+const COMPONENT_COLORS = ['#f472b6', '#34d399', '#fb923c', '#818cf8', '#facc15', '#2dd4bf', '#c084fc', '#f87171']
+
+const STYLES: Record<string, CSSProperties> = {
+  ...BASE_STYLES,
+  graphRow: {
     display: 'flex',
-    alignItems: 'center',
     gap: '8px',
-    flexWrap: 'wrap' as const
-  },
-  button: {
-    marginLeft: 8
-  },
-  legend: {
-    marginTop: 12,
-    padding: 12,
-    backgroundColor: 'transparent',
-    border: '1px solid #e5e7eb',
-    borderRadius: 4
+    alignItems: 'stretch'
   },
-  legendTitle: {
-    fontWeight: 'bold',
-    marginBottom: 8,
-    fontSize: 14
+  sccPanel: {
+    width: 160,
+    flexShrink: 0,
+    padding: 8,
+    border: BORDER,
+    borderRadius: 4,
+    fontSize: 13,
+    overflowY: 'auto' as const,
+    maxHeight: '420px'
   },
-  legendItems: {
+  sccStack: {
     display: 'flex',
-    flexWrap: 'wrap' as const,
-    gap: '16px'
+    flexDirection: 'column-reverse' as const,
+    gap: '4px',
+    marginBottom: 12
   },
-  legendItem: {
-    display: 'flex',
-    alignItems: 'center',
-    gap: '6px',
-    fontSize: 13
-  },
-  legendColor: {
-    width: 20,
-    height: 3,
-    borderRadius: 2
+  sccStackItem: {
+    padding: '2px 8px',
+    border: BORDER,
+    borderRadius: 4,
+    textAlign: 'center' as const,
+    fontFamily: 'monospace'
   }
 }
 
-const NODE_STATE = {
-  UNVISITED: 0,
-  VISITING: 1,
-  VISITED: 2
-} as const
+const INPUT_FORMATS: Record<string, InputFormat> = {
+  EDGES: 'edges',
+  HEADER: 'header',
+  ADJACENCY: 'adjacency',
+  DOT: 'dot'
+}
+
+const INPUT_FORMAT_OPTIONS: Array<{ format: InputFormat, label: StringKey, hint: StringKey }> = [
+  { format: 'edges', label: 'formatEdges', hint: 'formatEdgesHint' },
+  { format: 'header', label: 'formatHeader', hint: 'formatHeaderHint' },
+  { format: 'adjacency', label: 'formatAdjacency', hint: 'formatAdjacencyHint' },
+  { format: 'dot', label: 'formatDot', hint: 'formatDotHint' }
+]
+
+const MAX_SHARED_NODES = 1000
+
+// Larger inputs would freeze the tab while the node list is built
+const MAX_INPUT_NODES = 50000
+
+const HASH_KEY_PREFIX = 'tarjan'
+
+// Graphs with more nodes plus edges than this switch to performance mode
+const PERFORMANCE_THRESHOLD = 2000
+
+// Autoplay in performance mode reaches the end in about this many ticks
+const PERFORMANCE_TICKS = 200
+
+const ROOT_SELECT_LIMIT = 500
+
+const CALL_STACK_LIMIT = 50
+
+const NEIGHBOR_ORDER_OPTIONS: Array<{ order: NeighborOrder, label: StringKey }> = [
+  { order: 'insertion', label: 'orderInsertion' },
+  { order: 'ascending', label: 'orderAscending' },
+  { order: 'descending', label: 'orderDescending' },
+  { order: 'random', label: 'orderRandom' }
+]
+
+const LAYOUT_OPTIONS: Array<{ layout: LayoutName, label: StringKey }> = [
+  { layout: 'breadthfirst', label: 'layoutBreadthfirst' },
+  { layout: 'circle', label: 'layoutCircle' },
+  { layout: 'cose', label: 'layoutCose' },
+  { layout: 'dfs-tree', label: 'layoutDfsTree' }
+]
+
+const DFS_TREE_SPACING = { x: 70, y: 90 }
+
+// A connect gesture that starts and ends on one node only adds a self-loop
+// if the pointer left the node by more than this many pixels in between
+const SELF_LOOP_DRAG = 30
 
 // ============================================================================
-// DFS Algorithm - Tarjan's Edge Classification
+// Graph Input Parsing
 // ============================================================================
 
-function classifyEdges(
-  nodes: number[],
-  edges: Array<[number, number]>,
-  isDirected: boolean = true
-): Event[] {
-  let time = 0
-  const dfn: Record<number, number> = {} // discovery time for each node
-  const state: Record<number, number> = {} // current state of each node
-  const adj: Record<number, number[]> = {} // adjacency list representation
-  const events: Event[] = [] // sequence of edge classification events
-  const edgeIds = new Map<string, string>() // store original edge IDs
-  // Initialize data structures
-  nodes.forEach(v => {
-    adj[v] = []
-    state[v] = NODE_STATE.UNVISITED
-  })
-  
-  // Build adjacency list
-  edges.forEach(([u, v]) => {
-    adj[u].push(v)
-    edgeIds.set(`${u},${v}`, `${u}-${v}`)
-    
-    // For undirected graphs, add reverse edge
-    if (!isDirected) {
-      adj[v].push(u)
-      edgeIds.set(`${v},${u}`, `${u}-${v}`) // use same edge ID
+/**
+ * Parses one `u v [w]` edge line. Returns an error message for rejected lines.
+ */
+function parseEdgeLine(
+  line: string,
+  options: ParseOptions,
+  nodeCount: number
+): { edge: [number, number], weight: number | null } | ParseError {
+  const tokens = line.split(/\s+/)
+  if (tokens.length < 2 || tokens.length > 3) {
+    return { key: 'errorFieldCount', params: { count: tokens.length } }
+  }
+  if (!/^\d+$/.test(tokens[0]) || !/^\d+$/.test(tokens[1])) {
+    return { key: 'errorNodeInteger', params: {} }
+  }
+  if (tokens.length === 3 && !/^-?\d+(\.\d+)?$/.test(tokens[2])) {
+    return { key: 'errorWeight', params: { weight: tokens[2] } }
+  }
+
+  const offset = options.oneIndexed ? 1 : 0
+  const u = parseInt(tokens[0], 10) - offset
+  const v = parseInt(tokens[1], 10) - offset
+  for (const id of [u, v]) {
+    if (id < 0 || id >= nodeCount) {
+      return { key: 'errorNodeRange', params: { node: id + offset, min: offset, max: nodeCount - 1 + offset } }
     }
-  })
+  }
 
-  /**
-   * Depth-first search traversal
-   */
-  function dfs(u: number, fa: number | null = null) {
-    dfn[u] = ++time
-    state[u] = NODE_STATE.VISITING
-    events.push({ id: String(u), type: 'node', status: 'visiting', parent: fa })
-    
-    for (const v of adj[u]) {
-      const edgeId = edgeIds.get(`${u},${v}`)
-      if(v === fa && !isDirected) {
-        // Ignore the edge leading back to parent in undirected graph
-        continue
+  return { edge: [u, v], weight: tokens.length === 3 ? Number(tokens[2]) : null }
+}
+
+/**
+ * Parses the custom-graph textarea in one of the supported formats.
+ * Every rejected line is reported as an error with its 1-based line number.
+ */
+function parseGraphInput(text: string, format: InputFormat, options: ParseOptions): ParseResult {
+  const errors: ParseError[] = []
+  const edges: Array<[number, number]> = []
+  const weights: Array<number | null> = []
+  const lines = text.split(/\r?\n/)
+  const offset = options.oneIndexed ? 1 : 0
+  let nodeCount = options.nodeCount
+  let directed: boolean | undefined
+
+  const reject = (index: number, key: StringKey, params: Message['params'] = {}) => {
+    errors.push({ key, params, line: index + 1 })
+  }
+
+  if (format === INPUT_FORMATS.EDGES && (isNaN(nodeCount) || nodeCount <= 0)) {
+    return { graph: null, errors: [{ key: 'errorNodeCount', params: {} }] }
+  }
+  if (format === INPUT_FORMATS.EDGES && nodeCount > MAX_INPUT_NODES) {
+    return { graph: null, errors: [{ key: 'errorTooManyNodes', params: { max: MAX_INPUT_NODES, count: nodeCount } }] }
+  }
+
+  if (format === INPUT_FORMATS.EDGES || format === INPUT_FORMATS.HEADER) {
+    let expected: number | null = null
+    let headerSeen = format === INPUT_FORMATS.EDGES
+
+    lines.forEach((raw, index) => {
+      const line = raw.trim()
+      if (!line) return
+
+      if (!headerSeen) {
+        // Judge-style input: the first line is `n m`
+        const m = line.match(/^(\d+)\s+(\d+)$/)
+        if (!m) {
+          reject(index, 'errorHeaderLine')
+          return
+        }
+        nodeCount = parseInt(m[1], 10)
+        expected = parseInt(m[2], 10)
+        headerSeen = true
+        if (nodeCount > MAX_INPUT_NODES) {
+          reject(index, 'errorTooManyNodes', { max: MAX_INPUT_NODES, count: nodeCount })
+          // Keep checking the edge lines against the largest supported graph
+          nodeCount = MAX_INPUT_NODES
+        }
+        return
       }
-      if (state[v] === NODE_STATE.UNVISITED) {
-        // Tree edge: leads to undiscovered node
-        events.push({ id: edgeId as string, type: EDGE_TYPES.TREE })
-        dfs(v, u)
-      } else {
-        if (state[v] === NODE_STATE.VISITING) {
-          // Back edge: leads to ancestor in DFS tree
-          events.push({ id: edgeId as string, type: EDGE_TYPES.BACK })
-        } else if (isDirected) {
-          if (dfn[v] > dfn[u]) {
-            events.push({ id: edgeId as string, type: EDGE_TYPES.FORWARD })
-          } else {
-            events.push({ id: edgeId as string, type: EDGE_TYPES.CROSS })
-          }
+
+      if (expected !== null && edges.length >= expected) {
+        reject(index, 'errorTooManyEdges', { expected })
+        return
+      }
+
+      const result = parseEdgeLine(line, options, nodeCount)
+      if ('key' in result) {
+        reject(index, result.key as StringKey, result.params)
+        return
+      }
+      edges.push(result.edge)
+      weights.push(result.weight)
+    })
+
+    if (!headerSeen) {
+      errors.push({ key: 'errorMissingHeader', params: {} })
+    } else if (expected !== null && edges.length < expected && errors.length === 0) {
+      errors.push({ key: 'errorTooFewEdges', params: { expected, count: edges.length } })
+    }
+  } else if (format === INPUT_FORMATS.ADJACENCY) {
+    // `u: v1 v2 ...`, one line per vertex
+    let maxId = -1
+    const listed: Array<[number, number]> = []
+    lines.forEach((raw, index) => {
+      const line = raw.trim()
+      if (!line) return
+
+      const m = line.match(/^(\d+)\s*:\s*(.*)$/)
+      if (!m) {
+        reject(index, 'errorAdjacencyLine')
+        return
+      }
+      const neighbors = m[2].trim() ? m[2].trim().split(/\s+/) : []
+      const invalid = neighbors.find(token => !/^\d+$/.test(token))
+      if (invalid !== undefined) {
+        reject(index, 'errorNeighbor', { token: invalid })
+        return
+      }
+
+      const u = parseInt(m[1], 10) - offset
+      const vs = neighbors.map(token => parseInt(token, 10) - offset)
+      const outOfRange = [u, ...vs].find(id => id < 0)
+      if (outOfRange !== undefined) {
+        reject(index, 'errorNodeBelow', { node: outOfRange + offset, min: offset })
+        return
+      }
+
+      maxId = Math.max(maxId, u, ...vs)
+      for (const v of vs) {
+        listed.push([u, v])
+      }
+    })
+
+    // An undirected edge is normally listed under both endpoints, so u-v is
+    // kept as many times as the longer of the two lists names it
+    const counts: Record<string, number> = {}
+    const emitted: Record<string, number> = {}
+    for (const [u, v] of listed) {
+      counts[`${u}-${v}`] = (counts[`${u}-${v}`] ?? 0) + 1
+    }
+    for (const [u, v] of listed) {
+      const key = options.isDirected ? `${u}-${v}` : `${Math.min(u, v)}-${Math.max(u, v)}`
+      const limit = options.isDirected || u === v
+        ? counts[`${u}-${v}`]
+        : Math.max(counts[`${u}-${v}`] ?? 0, counts[`${v}-${u}`] ?? 0)
+      if ((emitted[key] ?? 0) >= limit) continue
+      emitted[key] = (emitted[key] ?? 0) + 1
+      edges.push([u, v])
+      weights.push(null)
+    }
+    nodeCount = maxId + 1
+  } else if (format === INPUT_FORMATS.DOT) {
+    let maxId = -1
+    let headerSeen = false
+    let closed = false
+
+    const parseId = (token: string) => {
+      const m = token.trim().match(/^"?(\d+)"?$/)
+      return m ? parseInt(m[1], 10) - offset : null
+    }
+
+    lines.forEach((raw, index) => {
+      // Strip `//` and `#` comments; block comments are not supported
+      let line = raw.replace(/\/\/.*$|^\s*#.*$/, '').trim()
+      if (!line) return
+
+      if (!headerSeen) {
+        const m = line.match(/^(strict\s+)?(di)?graph\b[^{]*\{(.*)$/)
+        if (!m) {
+          reject(index, 'errorDotHeader')
+          return
+        }
+        directed = Boolean(m[2])
+        headerSeen = true
+        line = m[3].trim()
+      }
+      if (closed) {
+        if (line) reject(index, 'errorAfterClose')
+        return
+      }
+      if (line.endsWith('}')) {
+        closed = true
+        line = line.slice(0, -1).trim()
+      }
+
+      for (const statement of line.split(';').map(part => part.trim()).filter(Boolean)) {
+        // Default attribute statements and graph attributes carry no edges
+        if (/^(graph|node|edge)\s*\[/.test(statement) || /^\w+\s*=/.test(statement)) continue
+
+        const attrMatch = statement.match(/^([^[]*?)\s*(\[(.*)\])?$/)
+        const body = attrMatch ? attrMatch[1] : statement
+        const attrs = attrMatch && attrMatch[3] ? attrMatch[3] : ''
+        const operator = directed ? '->' : '--'
+        const wrongOperator = directed ? '--' : '->'
+        if (body.includes(wrongOperator)) {
+          reject(index, 'errorDotOperator', { kind: directed ? 'digraph' : 'graph', operator })
+          continue
+        }
+
+        const ids = body.split(operator).map(parseId)
+        if (ids.some(id => id === null || id < 0)) {
+          reject(index, 'errorDotStatement', { statement, min: offset })
+          continue
+        }
+
+        const weightMatch = attrs.match(/\b(?:label|weight)\s*=\s*"?(-?\d+(?:\.\d+)?)"?/)
+        const weight = weightMatch ? Number(weightMatch[1]) : null
+        const chain = ids as number[]
+        maxId = Math.max(maxId, ...chain)
+        for (let i = 0; i + 1 < chain.length; i++) {
+          edges.push([chain[i], chain[i + 1]])
+          weights.push(weight)
         }
       }
+    })
+
+    if (!headerSeen) {
+      errors.push({ key: 'errorDotMissingHeader', params: {} })
+    } else if (!closed) {
+      errors.push({ key: 'errorDotUnclosed', params: {} })
     }
+    nodeCount = maxId + 1
+  }
+
+  if (errors.length === 0 && (isNaN(nodeCount) || nodeCount <= 0)) {
+    errors.push({ key: 'errorNodeCount', params: {} })
+  }
+  // Adjacency and DOT input size the graph by its largest node id
+  if (errors.length === 0 && nodeCount > MAX_INPUT_NODES) {
+    errors.push({ key: 'errorTooManyNodes', params: { max: MAX_INPUT_NODES, count: nodeCount } })
+  }
+  if (errors.length === 0 && edges.length === 0) {
+    errors.push({ key: 'errorNoEdges', params: {} })
+  }
+  if (errors.length > 0) {
+    return { graph: null, errors }
+  }
+
+  // Repeated edges and self-loops are kept: a parallel edge is never a bridge
+  const graph: ParsedGraph = { nodes: Array.from({ length: nodeCount }, (_, i) => i), edges, weights, directed }
+
+  return { graph, errors }
+}
+
+/**
+ * An input error in the reader's language, prefixed with its line number
+ */
+function formatParseError(error: ParseError, t: Translate): string {
+  const reason = t(error.key as StringKey, error.params)
+  return error.line === undefined ? reason : t('errorAtLine', { line: error.line, reason })
+}
+
+/**
+ * Writes edges back in the `u v [w]` edge-list format
+ */
+function formatEdgeList(edges: Array<[number, number]>, weights: Array<number | null>, oneIndexed: boolean): string {
+  const offset = oneIndexed ? 1 : 0
+  return edges
+    .map(([u, v], index) => {
+      const line = `${u + offset} ${v + offset}`
+      return weights[index] === null ? line : `${line} ${weights[index]}`
+    })
+    .join('\n')
+}
+
+// ============================================================================
+// Shareable URL State
+// ============================================================================
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+async function pipeThrough(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+/**
+ * Serializes the shared state as `z<deflate+base64url>`, or `j<base64url>` when
+ * the browser has no CompressionStream
+ */
+async function encodeSharedState(shared: SharedState): Promise<string> {
+  // decodeSharedState would reject the link anyway
+  if (shared.nodes.length > MAX_SHARED_NODES) throw new Error('too many nodes to share')
+  const payload = {
+    n: shared.nodes.length,
+    e: shared.edges.flat(),
+    w: shared.weights.some(weight => weight !== null) ? shared.weights : undefined,
+    d: shared.isDirected ? 1 : 0,
+    c: shared.isSccMode ? 1 : 0,
+    r: shared.traversal.root,
+    o: shared.traversal.neighborOrder,
+    x: shared.traversal.seed,
+    s: shared.step
+  }
+  const bytes = new TextEncoder().encode(JSON.stringify(payload))
+  if (typeof CompressionStream === 'undefined') {
+    return `j${toBase64Url(bytes)}`
+  }
+  return `z${toBase64Url(await pipeThrough(bytes, new CompressionStream('deflate-raw')))}`
+}
+
+/**
+ * Inverse of encodeSharedState. Throws on anything that is not a valid graph.
+ */
+async function decodeSharedState(text: string): Promise<SharedState> {
+  let bytes = fromBase64Url(text.slice(1))
+  if (text[0] === 'z') {
+    bytes = await pipeThrough(bytes, new DecompressionStream('deflate-raw'))
+  } else if (text[0] !== 'j') {
+    throw new Error('unknown encoding')
+  }
 
-    state[u] = NODE_STATE.VISITED
-    events.push({ id: String(u), type: 'node', status: 'visited', parent: fa })
+  const payload = JSON.parse(new TextDecoder().decode(bytes))
+  const isIndex = (value: unknown, limit: number) =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) < limit
+
+  const n = payload.n
+  if (!Number.isInteger(n) || n <= 0 || n > MAX_SHARED_NODES) throw new Error('invalid node count')
+  if (!Array.isArray(payload.e) || payload.e.length === 0 || payload.e.length % 2 !== 0) throw new Error('invalid edges')
+  if (!payload.e.every((id: unknown) => isIndex(id, n))) throw new Error('edge endpoint out of range')
+
+  const edges: Array<[number, number]> = []
+  for (let i = 0; i < payload.e.length; i += 2) {
+    edges.push([payload.e[i], payload.e[i + 1]])
+  }
+  const weights: Array<number | null> = payload.w === undefined ? edges.map(() => null) : payload.w
+  if (!Array.isArray(weights) || weights.length !== edges.length ||
+      !weights.every(weight => weight === null || typeof weight === 'number')) {
+    throw new Error('invalid weights')
   }
 
-  // Process all unvisited nodes to handle disconnected components
-  for (const node of nodes) {
-    if (state[node] === NODE_STATE.UNVISITED) {
-      dfs(node)
+  const isDirected = payload.d === 1
+  const isSccMode = payload.c === 1 && isDirected
+  const nodes = Array.from({ length: n }, (_, i) => i)
+  const traversal: TraversalOptions = {
+    root: payload.r ?? DEFAULT_TRAVERSAL.root,
+    neighborOrder: payload.o ?? DEFAULT_TRAVERSAL.neighborOrder,
+    seed: payload.x ?? DEFAULT_TRAVERSAL.seed
+  }
+  if (!isIndex(traversal.root, n)) throw new Error('invalid root')
+  if (!NEIGHBOR_ORDER_OPTIONS.some(({ order }) => order === traversal.neighborOrder)) throw new Error('invalid neighbor order')
+  if (!Number.isInteger(traversal.seed)) throw new Error('invalid seed')
+
+  const total = classifyEdges(nodes, edges, isDirected, isSccMode, traversal).length
+  if (!Number.isInteger(payload.s) || payload.s < 0 || payload.s > total) throw new Error('invalid step')
+
+  return { nodes, edges, weights, isDirected, isSccMode, traversal, step: payload.s }
+}
+
+/**
+ * The hash holds `key=value` segments joined by `&`, one per visualizer
+ */
+function readHashSegment(key: string): string | null {
+  for (const segment of window.location.hash.replace(/^#/, '').split('&')) {
+    const index = segment.indexOf('=')
+    if (index > 0 && decodeURIComponent(segment.slice(0, index)) === key) {
+      return segment.slice(index + 1)
     }
   }
+  return null
+}
 
-  return events
+/**
+ * The current hash with this instance's segment replaced; other segments,
+ * such as a heading anchor, are kept in front of it
+ */
+function buildHash(key: string, value: string): string {
+  const segments = window.location.hash
+    .replace(/^#/, '')
+    .split('&')
+    .filter(segment => segment && !segment.startsWith(`${encodeURIComponent(key)}=`))
+  segments.push(`${encodeURIComponent(key)}=${value}`)
+  return `#${segments.join('&')}`
 }
 
 // ============================================================================
-// Cytoscape Configuration
+// DFS Tree Layout
 // ============================================================================
 
 /**
- * Creates and configures the Cytoscape graph visualization
+ * Places every DFS tree top-down from the events: depth gives the row, leaves
+ * take consecutive columns and parents sit centered above their children.
+ * Trees of a disconnected graph are laid out side by side.
  */
-function createCytoscapeInstance(
-  container: HTMLElement,
+function computeDfsTreeLayout(events: Event[]): DfsTreeLayout {
+  const children: Record<number, number[]> = {}
+  const roots: number[] = []
+  const treeEdges = new Set<string>()
+
+  for (const event of events) {
+    if (event.type === EVENT_TYPES.NODE && event.status === 'visiting') {
+      const node = Number(event.id)
+      children[node] = []
+      if (event.parent === null || event.parent === undefined) {
+        roots.push(node)
+      } else {
+        children[event.parent].push(node)
+      }
+    } else if (event.type === EDGE_TYPES.TREE) {
+      treeEdges.add(event.id)
+    }
+  }
+
+  const positions: NodePositions = {}
+  let column = 0
+  for (const root of roots) {
+    // Post-order walk on an explicit stack so deep trees cannot overflow the JS stack
+    const pending: Array<{ node: number, depth: number, expanded: boolean }> = [{ node: root, depth: 0, expanded: false }]
+    while (pending.length > 0) {
+      const top = pending[pending.length - 1]
+      const kids = children[top.node]
+      if (!top.expanded && kids.length > 0) {
+        top.expanded = true
+        for (let index = kids.length - 1; index >= 0; index--) {
+          pending.push({ node: kids[index], depth: top.depth + 1, expanded: false })
+        }
+        continue
+      }
+      pending.pop()
+      const x = kids.length === 0
+        ? column++ * DFS_TREE_SPACING.x
+        : (positions[String(kids[0])].x + positions[String(kids[kids.length - 1])].x) / 2
+      positions[String(top.node)] = { x, y: top.depth * DFS_TREE_SPACING.y }
+    }
+    column++ // gap between trees
+  }
+
+  return { positions, treeEdges }
+}
+
+// ============================================================================
+// Cytoscape Configuration
+// ============================================================================
+
+function buildElements(
   nodes: number[],
   edges: Array<[number, number]>,
-  isDirected: boolean,
-  palette: ColorPalette
-): Core {
-  const nodeElements = nodes.map(id => ({ data: { id: String(id) } }))
-  const edgeElements = edges.map(([u, v]) => ({
-    data: { id: `${u}-${v}`, source: String(u), target: String(v) }
+  weights: Array<number | null>,
+  dfsTree: DfsTreeLayout | null
+): ElementDefinition[] {
+  // Parallel edges and self-loops already curve, so only lone edges need an arc
+  const multiplicity: Record<string, number> = {}
+  const pairKey = (u: number, v: number) => `${Math.min(u, v)}-${Math.max(u, v)}`
+  edges.forEach(([u, v]) => {
+    multiplicity[pairKey(u, v)] = (multiplicity[pairKey(u, v)] ?? 0) + 1
+  })
+
+  const nodeElements = nodes.map(id => ({ data: { id: String(id), label: String(id) } }))
+  const edgeElements = edges.map(([u, v], index) => ({
+    data: {
+      id: edgeId(index),
+      source: String(u),
+      target: String(v),
+      label: weights[index] !== null && weights[index] !== undefined ? String(weights[index]) : '',
+      // Non-tree edges arc around the DFS tree layout so they stay visible
+      offTree: dfsTree && !dfsTree.treeEdges.has(edgeId(index)) && u !== v && multiplicity[pairKey(u, v)] === 1 ? 1 : 0
+    }
   }))
+  return [...nodeElements, ...edgeElements]
+}
 
-  const styles = [
+function buildLayout(
+  nodes: number[],
+  isDirected: boolean,
+  positions: NodePositions | null,
+  layout: LayoutName,
+  root: number,
+  dfsTree: DfsTreeLayout | null
+): LayoutOptions {
+  return positions && nodes.every(id => positions[String(id)])
+    // Keep positions the user dragged nodes to
+    ? { name: 'preset', positions, fit: false }
+    : layout === 'dfs-tree' && dfsTree
+      ? { name: 'preset', positions: dfsTree.positions }
+      : layout === 'breadthfirst'
+        ? { name: 'breadthfirst', directed: isDirected, roots: [String(root)] }
+        : { name: layout, animate: false }
+}
+
+/**
+ * Base colors for the site's theme mode with the chosen edge-type scheme on top
+ */
+function createPalette(mode: ThemeMode, scheme: EdgeScheme): ColorPalette {
+  return {
+    ...BASE_PALETTES[mode],
+    ...EDGE_SCHEMES[scheme],
+    onStack: '#0ea5e9',
+    components: COMPONENT_COLORS
+  }
+}
+
+/**
+ * The shared node/edge styles plus the Tarjan classes: edge types, the
+ * Tarjan stack, SCC colors, bridges and cut vertices
+ */
+function createStylesheet(palette: ColorPalette, isDirected: boolean): StylesheetStyle[] {
+  return [
+    ...createBaseStylesheet(palette, isDirected),
     {
-      selector: 'node',
+      selector: 'node.edge-source',
       style: {
-        'background-color': palette.node,
-        'label': 'data(id)',
-        'font-size': 16,
-        'color': '#afff2e'
+        'border-width': 3,
+        'border-color': palette.nodeCurrent
       }
     },
     {
-      selector: 'node.visiting',
+      selector: 'node.on-stack',
       style: {
-        'background-color': palette.nodeVisiting
+        'border-width': 3,
+        'border-style': 'dashed' as const,
+        'border-color': palette.onStack
       }
     },
+    ...palette.components.map((color, index) => ({
+      selector: `node.${EVENT_TYPES.SCC}-${index}`,
+      style: {
+        'background-color': color
+      }
+    })),
     {
-      selector: 'node.visited',
+      selector: `node.${EVENT_TYPES.ARTICULATION}`,
       style: {
-        'background-color': palette.nodeVisited
+        'border-width': 4,
+        'border-color': palette.articulation,
+        'shape': 'diamond' as const
       }
     },
+    createEdgeHighlight(`.${EDGE_TYPES.TREE}`, palette.tree, isDirected, EDGE_PATTERNS.tree),
+    createEdgeHighlight(`.${EDGE_TYPES.BACK}`, palette.back, isDirected, EDGE_PATTERNS.back),
+    createEdgeHighlight(`.${EDGE_TYPES.FORWARD}`, palette.forward, isDirected, EDGE_PATTERNS.forward),
+    createEdgeHighlight(`.${EDGE_TYPES.CROSS}`, palette.cross, isDirected, EDGE_PATTERNS.cross),
     {
-      selector: 'node.current',
+      selector: 'edge[offTree = 1]',
       style: {
-        'background-color': palette.nodeCurrent,
-        'border-width': 3,
-        'border-color': '#ea580c',
-        'box-shadow': `0 0 0 2px ${palette.nodeCurrent}`
+        'curve-style': 'unbundled-bezier' as const,
+        'control-point-distances': 40,
+        'control-point-weights': 0.5
       }
     },
     {
-      selector: 'edge',
+      selector: `edge.${EVENT_TYPES.BRIDGE}`,
       style: {
-        'line-color': palette.edgeDefault,
-        'target-arrow-shape': isDirected ? 'triangle' : 'none',
-        'curve-style': isDirected ? 'bezier' : 'straight',
-        'target-arrow-color': palette.edgeDefault,
-        'width': 2
+        'underlay-color': palette.bridge,
+        'underlay-padding': 4,
+        'underlay-opacity': 0.8,
+        'width': 6
       }
-    },
-    { 
-      selector: `.${EDGE_TYPES.TREE}`, 
-      style: { 
-        'line-color': palette.tree, 
-        'target-arrow-color': palette.tree, 
-        'target-arrow-shape': isDirected ? 'triangle' : 'none',
-        'curve-style': isDirected ? 'bezier' : 'straight',
-        'width': 4 
-      } 
-    },
-    { 
-      selector: `.${EDGE_TYPES.BACK}`, 
-      style: { 
-        'line-color': palette.back, 
-        'target-arrow-color': palette.back, 
-        'target-arrow-shape': isDirected ? 'triangle' : 'none',
-        'curve-style': isDirected ? 'bezier' : 'straight',
-        'width': 4 
-      } 
-    },
-    { 
-      selector: `.${EDGE_TYPES.FORWARD}`, 
-      style: { 
-        'line-color': palette.forward, 
-        'target-arrow-color': palette.forward, 
-        'target-arrow-shape': isDirected ? 'triangle' : 'none',
-        'curve-style': isDirected ? 'bezier' : 'straight',
-        'width': 4 
-      } 
-    },
-    { 
-      selector: `.${EDGE_TYPES.CROSS}`, 
-      style: { 
-        'line-color': palette.cross, 
-        'target-arrow-color': palette.cross, 
-        'target-arrow-shape': isDirected ? 'triangle' : 'none',
-        'curve-style': isDirected ? 'bezier' : 'straight',
-        'width': 4 
-      } 
     }
   ]
-
-  return cytoscape({
-    container,
-    elements: [...nodeElements, ...edgeElements],
-    style: styles,
-    layout: {
-      name: 'breadthfirst',
-      directed: isDirected,
-      roots: ['0']
-    }
-  })
 }
 
 // ============================================================================
-// Control Component
+// Action Buttons Component
 // ============================================================================
 
-function Controls({ onNext, onReset, isComplete, isDirected, onToggleDirection }: ControlsProps) {
+function ActionButtons({
+  t,
+  isDirected,
+  onToggleDirection,
+  isSccMode,
+  onToggleScc,
+  onCopyLink,
+  linkStatus,
+  canShare,
+  onExportPng,
+  onExportFrames,
+  onExportTrace,
+  isExporting,
+  isEditMode,
+  onToggleEditMode,
+  isPerformanceMode,
+  onJumpToBridge,
+  hasNextBridge
+}: ActionButtonsProps) {
   return (
-    <div style={STYLES.controls as CSSProperties}>
-      <button onClick={onNext} disabled={isComplete}>
-        下一步
+    <>
+      {onJumpToBridge !== null && (
+        <button onClick={onJumpToBridge} disabled={!hasNextBridge} style={STYLES.button}>
+          {t('jumpToBridge')}
+        </button>
+      )}
+      <button onClick={onToggleDirection} disabled={isSccMode} style={STYLES.button}>
+        {isDirected ? t('toUndirected') : t('toDirected')}
+      </button>
+      <button onClick={onToggleScc} style={STYLES.button}>
+        {isSccMode ? t('sccOff') : t('sccOn')}
+      </button>
+      <button onClick={onToggleEditMode} style={STYLES.button}>
+        {isEditMode ? t('editEnd') : t('editStart')}
       </button>
-      <button onClick={onReset} style={STYLES.button as CSSProperties}>
-        重置
+      <button onClick={onCopyLink} disabled={!canShare} style={STYLES.button}>
+        {t('copyLink')}
       </button>
-      <button onClick={onToggleDirection} style={STYLES.button as CSSProperties}>
-        切換為{isDirected ? '無向圖' : '有向圖'}
+      {canShare
+        ? linkStatus && <span>{linkStatus}</span>
+        : <span>{t('linkTooLarge', { max: MAX_SHARED_NODES })}</span>}
+      <button onClick={onExportPng} disabled={isExporting} style={STYLES.button}>
+        {t('exportPng')}
+      </button>
+      <button onClick={onExportFrames} disabled={isExporting || isPerformanceMode} style={STYLES.button}>
+        {isExporting ? t('exporting') : t('exportFrames')}
+      </button>
+      <button onClick={onExportTrace} style={STYLES.button}>
+        {t('exportTrace')}
+      </button>
+    </>
+  )
+}
+
+// ============================================================================
+// Traversal Settings Component
+// ============================================================================
+
+function TraversalSettings({ t, nodes, traversal, onTraversalChange, layout, onLayoutChange }: TraversalSettingsProps) {
+  return (
+    <div style={STYLES.controls as CSSProperties}>
+      <label>
+        {t('root')}{' '}
+        {nodes.length > ROOT_SELECT_LIMIT ? (
+          <input
+            type="number"
+            min={0}
+            max={nodes.length - 1}
+            value={traversal.root}
+            onChange={e => {
+              const root = parseInt(e.target.value, 10)
+              if (nodes.includes(root)) onTraversalChange({ ...traversal, root })
+            }}
+            style={{ width: 80 } as CSSProperties}
+          />
+        ) : (
+          <select
+            value={traversal.root}
+            onChange={e => onTraversalChange({ ...traversal, root: Number(e.target.value) })}
+          >
+            {nodes.map(node => (
+              <option key={node} value={node}>{node}</option>
+            ))}
+          </select>
+        )}
+      </label>
+      <label style={STYLES.button as CSSProperties}>
+        {t('neighborOrder')}{' '}
+        <select
+          value={traversal.neighborOrder}
+          onChange={e => onTraversalChange({ ...traversal, neighborOrder: e.target.value as NeighborOrder })}
+        >
+          {NEIGHBOR_ORDER_OPTIONS.map(({ order, label }) => (
+            <option key={order} value={order}>{t(label)}</option>
+          ))}
+        </select>
+      </label>
+      {traversal.neighborOrder === 'random' && (
+        <label style={STYLES.button as CSSProperties}>
+          {t('seed')}{' '}
+          <input
+            type="number"
+            value={traversal.seed}
+            onChange={e => onTraversalChange({ ...traversal, seed: parseInt(e.target.value, 10) || 0 })}
+            style={{ width: 80 } as CSSProperties}
+          />
+        </label>
+      )}
+      <label style={STYLES.button as CSSProperties}>
+        {t('layout')}{' '}
+        <select value={layout} onChange={e => onLayoutChange(e.target.value as LayoutName)}>
+          {LAYOUT_OPTIONS.map(option => (
+            <option key={option.layout} value={option.layout}>{t(option.label)}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  )
+}
+
+// ============================================================================
+// Edit Toolbar Component
+// ============================================================================
+
+function EditToolbar({ t, tool, onToolChange, onDeleteSelected }: EditToolbarProps) {
+  return (
+    <div style={STYLES.controls as CSSProperties}>
+      <label>
+        <input type="radio" checked={tool === 'move'} onChange={() => onToolChange('move')} /> {t('toolMove')}
+      </label>
+      <label>
+        <input type="radio" checked={tool === 'addNode'} onChange={() => onToolChange('addNode')} /> {t('toolAddNode')}
+      </label>
+      <label>
+        <input type="radio" checked={tool === 'connect'} onChange={() => onToolChange('connect')} /> {t('toolConnect')}
+      </label>
+      <button onClick={onDeleteSelected} style={STYLES.button as CSSProperties}>
+        {t('deleteSelected')}
       </button>
+      <span style={{ fontSize: 13, opacity: 0.8 } as CSSProperties}>
+        {t('editHint')}
+      </span>
     </div>
   )
 }
 
 // ============================================================================
-// Legend Component
+// Legend
 // ============================================================================
 
-function Legend({ palette }: LegendProps) {
-  const legendData: LegendData[] = [
-    { type: '樹邊 (Tree)', color: palette.tree },
-    { type: '回邊 (Back)', color: palette.back },
-    { type: '前向邊 (Forward)', color: palette.forward },
-    { type: '橫跨邊 (Cross)', color: palette.cross }
+/**
+ * Legend rows for the current mode; the same entries are drawn under exported snapshots
+ */
+function getLegendGroups(palette: ColorPalette, isDirected: boolean, isSccMode: boolean, t: Translate): LegendItem[][] {
+  return [
+    [
+      { label: t('legendTree'), kind: 'edge', color: palette.tree, pattern: EDGE_PATTERNS.tree },
+      { label: t('legendBack'), kind: 'edge', color: palette.back, pattern: EDGE_PATTERNS.back },
+      { label: t('legendForward'), kind: 'edge', color: palette.forward, pattern: EDGE_PATTERNS.forward },
+      { label: t('legendCross'), kind: 'edge', color: palette.cross, pattern: EDGE_PATTERNS.cross }
+    ],
+    isDirected ? [] : [
+      { label: t('legendBridge'), kind: 'edge', color: palette.bridge, thickness: 6 },
+      { label: t('legendCutVertex'), kind: 'node', color: palette.articulation },
+      { label: t('legendNodeLabel'), kind: 'text' }
+    ],
+    isSccMode ? [
+      { label: t('legendOnStack'), kind: 'node', color: palette.onStack, dashed: true },
+      { label: t('legendComponents'), kind: 'node', colors: palette.components.slice(0, 4) }
+    ] : []
   ]
+}
 
+// ============================================================================
+// Call Stack Panel Component
+// ============================================================================
+
+function CallStackPanel({ t, callStack }: CallStackPanelProps) {
   return (
-    <div style={STYLES.legend as CSSProperties}>
-      <div style={STYLES.legendTitle as CSSProperties}>邊的類型圖例</div>
-      <div style={STYLES.legendItems as CSSProperties}>
-        {legendData.map(({ type, color }) => (
-          <div key={type} style={STYLES.legendItem as CSSProperties}>
-            <div style={{ ...STYLES.legendColor, backgroundColor: color } as CSSProperties} />
-            <span>{type}</span>
+    <div style={STYLES.callStack}>
+      <div style={STYLES.legendTitle}>{t('callStack')}</div>
+      {callStack.length === 0 && <span>{t('empty')}</span>}
+      {callStack
+        .slice(-CALL_STACK_LIMIT)
+        .map((frame, index, shown) => (
+          <div
+            key={index}
+            style={(index === shown.length - 1 ? { ...STYLES.frame, ...STYLES.frameActive } : STYLES.frame) as CSSProperties}
+          >
+            <div>dfs({frame.u}, {frame.fa ?? -1})</div>
+            <div>v = {frame.v ?? '-'}, child = {frame.child}</div>
           </div>
+        ))
+        .reverse()}
+      {callStack.length > CALL_STACK_LIMIT && <span>{t('deeperFrames', { count: callStack.length - CALL_STACK_LIMIT })}</span>}
+    </div>
+  )
+}
+
+// ============================================================================
+// SCC Stack Panel Component
+// ============================================================================
+
+function SccPanel({ t, stack, components, palette }: SccPanelProps) {
+  return (
+    <div style={STYLES.sccPanel as CSSProperties}>
+      <div style={STYLES.legendTitle as CSSProperties}>{t('tarjanStack')}</div>
+      <div style={STYLES.sccStack as CSSProperties}>
+        {stack.length === 0 && <span>{t('empty')}</span>}
+        {stack.map(node => (
+          <div key={node} style={STYLES.sccStackItem as CSSProperties}>{node}</div>
         ))}
       </div>
+      <div style={STYLES.legendTitle as CSSProperties}>{t('foundSccs')}</div>
+      {components.map((members, index) => (
+        <div key={index} style={STYLES.legendItem as CSSProperties}>
+          <div
+            style={{
+              ...STYLES.legendNode,
+              borderColor: palette.components[index % palette.components.length],
+              backgroundColor: palette.components[index % palette.components.length]
+            } as CSSProperties}
+          />
+          <span>{`{ ${members.join(', ')} }`}</span>
+        </div>
+      ))}
     </div>
   )
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function readPositions(cy: Core): NodePositions {
+  const positions: NodePositions = {}
+  cy.nodes().forEach(node => {
+    positions[node.id()] = { ...node.position() }
+  })
+  return positions
+}
+
+function formatNodeLabel(id: string, dfn: number, low: number): string {
+  return `${id}\n${dfn}/${low}`
+}
+
+/**
+ * Replays the first `step` events and returns the classes and labels every
+ * element should have, together with the Tarjan stack and the SCCs found so far
+ */
+function deriveVisualState(events: Event[], step: number, palette: ColorPalette): TarjanVisualState {
+  const classes = createClassTracker()
+  const labels: Record<string, string> = {}
+  const stack: number[] = []
+  const components: number[][] = []
+  const callStack: CallFrame[] = []
+  let current: string | null = null
+
+  for (const event of events.slice(0, step)) {
+    const frame = callStack[callStack.length - 1]
+    if (frame && event.to !== undefined && event.from === frame.u) {
+      // The frame is now looking at the edge u -> v
+      frame.v = event.to
+      if (event.type === EDGE_TYPES.TREE) frame.child++
+    }
+
+    if (event.type === EVENT_TYPES.NODE) {
+      if (event.status === 'visiting') {
+        callStack.push({ u: Number(event.id), fa: event.parent ?? null, v: null, child: 0 })
+        classes.remove(event.id, 'visited')
+        classes.add(event.id, 'visiting')
+        labels[event.id] = formatNodeLabel(event.id, event.dfn as number, event.low as number)
+        current = event.id
+      } else if (event.status === 'visited') {
+        classes.remove(event.id, 'visiting')
+        classes.add(event.id, 'visited')
+        callStack.pop()
+        // Control returns to the parent, if any
+        current = event.parent !== null && event.parent !== undefined ? String(event.parent) : null
+      }
+    } else if (event.type === EVENT_TYPES.LOW) {
+      labels[event.id] = formatNodeLabel(event.id, event.dfn as number, event.low as number)
+    } else if (event.type === EVENT_TYPES.PUSH) {
+      classes.add(event.id, 'on-stack')
+      stack.push(Number(event.id))
+    } else if (event.type === EVENT_TYPES.POP) {
+      classes.remove(event.id, 'on-stack')
+      stack.pop()
+    } else if (event.type === EVENT_TYPES.SCC) {
+      // Color the popped component as a group
+      const colorClass = `${EVENT_TYPES.SCC}-${(event.component as number) % palette.components.length}`
+      for (const member of event.members as number[]) {
+        classes.add(String(member), colorClass)
+      }
+      components.push(event.members as number[])
+    } else {
+      // Edge classification, bridges and cut vertices
+      classes.add(event.id, event.type)
+    }
+  }
+
+  if (current !== null) {
+    classes.add(current, 'current')
+  }
+
+  return { classes: classes.toLists(), labels, stack, components, callStack }
+}
+
+// ============================================================================
+// Screen Reader Mirror
+// ============================================================================
+
+type MirrorRow = { key: string, cells: string[] }
+
+/**
+ * One row per node: its dfn/low and, in words, the state the canvas shows by color
+ */
+function describeNodes(nodes: number[], visualState: TarjanVisualState, t: Translate): MirrorRow[] {
+  return nodes.map(node => {
+    const id = String(node)
+    const classes = visualState.classes[id] ?? []
+    const states = [
+      classes.includes('current') ? t('stateCurrent')
+        : classes.includes('visiting') ? t('stateVisiting')
+          : classes.includes('visited') ? t('stateVisited')
+            : t('stateUnvisited')
+    ]
+    if (classes.includes(EVENT_TYPES.ARTICULATION)) states.push(t('legendCutVertex'))
+    if (classes.includes('on-stack')) states.push(t('legendOnStack'))
+    const component = visualState.components.findIndex(members => members.includes(node))
+    if (component >= 0) states.push(t('stateComponent', { index: component + 1 }))
+
+    const label = visualState.labels[id]
+    return { key: id, cells: [id, label ? label.split('\n')[1] : '—', states.join(t('listSeparator'))] }
+  })
+}
+
+/**
+ * One row per edge with its classification so far, bridges included
+ */
+function describeEdges(edges: Array<[number, number]>, isDirected: boolean, visualState: TarjanVisualState, t: Translate): MirrorRow[] {
+  return edges.map(([u, v], index) => {
+    const id = edgeId(index)
+    const kinds = (visualState.classes[id] ?? [])
+      .filter(name => name in EDGE_CLASS_LABELS)
+      .map(name => t(EDGE_CLASS_LABELS[name]))
+    return {
+      key: id,
+      cells: [`${u} ${isDirected ? '→' : '—'} ${v}`, kinds.length > 0 ? kinds.join(t('listSeparator')) : t('edgeUnclassified')]
+    }
+  })
+}
+
+// ============================================================================
+// Static Rendering
+// ============================================================================
+
+/**
+ * The default graph before the first step, which the build inlines as an SVG
+ */
+export function renderStaticGraph(): string {
+  return renderGraphSvg({
+    elements: buildElements(GRAPH_CONFIG.nodes, GRAPH_CONFIG.edges, GRAPH_CONFIG.edges.map(() => null), null),
+    stylesheet: createStylesheet(createPalette('light', 'standard'), true),
+    layout: buildLayout(GRAPH_CONFIG.nodes, true, null, 'breadthfirst', DEFAULT_TRAVERSAL.root, null),
+    height: 420,
+    title: STRINGS[DEFAULT_LOCALE].staticLabel
+  })
+}
+
 // ============================================================================
 // Main Component
 // ============================================================================
 
-export default function TarjanVisualization() {
-  const containerRef = useRef<HTMLDivElement>(null)
+function TarjanVisualization({ id, locale: localeProp }: TarjanVisualizationProps) {
+  const rootRef = useRef<HTMLDivElement>(null)
+  const fullscreen = useFullscreen(rootRef)
+  const formId = useId()
   const cyRef = useRef<Core | null>(null)
-  const [step, setStep] = useState<number>(0)
-  const [mounted, setMounted] = useState<boolean>(false)
+  const locale = useLocale(rootRef, localeProp)
+  const t: Translate = createTranslator(STRINGS[locale])
   const [isDirected, setIsDirected] = useState<boolean>(true)
+  const [isSccMode, setIsSccMode] = useState<boolean>(false)
+  const [traversal, setTraversal] = useState<TraversalOptions>(DEFAULT_TRAVERSAL)
+  const [layoutName, setLayoutName] = useState<LayoutName>('breadthfirst')
   const [graphNodes, setGraphNodes] = useState<number[]>(GRAPH_CONFIG.nodes)
   const [graphEdges, setGraphEdges] = useState<Array<[number, number]>>(GRAPH_CONFIG.edges)
-  const [palette, setPalette] = useState<ColorPalette>(DEFAULT_COLORS)
+  const [graphWeights, setGraphWeights] = useState<Array<number | null>>(GRAPH_CONFIG.edges.map(() => null))
+  const themeMode = useThemeMode()
+  const [edgeScheme, setEdgeScheme] = useState<EdgeScheme>('standard')
+  // A new palette restyles the canvas in place, e.g. when the site switches to dark mode
+  const palette = useMemo(() => createPalette(themeMode, edgeScheme), [themeMode, edgeScheme])
   const [nodeCountInput, setNodeCountInput] = useState<string>(String(GRAPH_CONFIG.nodes.length))
   const [edgesInput, setEdgesInput] = useState<string>(GRAPH_CONFIG.edges.map(([u, v]) => `${u} ${v}`).join('\n'))
-  const [configError, setConfigError] = useState<string>('')
+  const [inputFormat, setInputFormat] = useState<InputFormat>(INPUT_FORMATS.EDGES)
+  const [oneIndexed, setOneIndexed] = useState<boolean>(false)
+  const [configErrors, setConfigErrors] = useState<ParseError[]>([])
+  const [hashKey, setHashKey] = useState<string | null>(null)
+  // Whether the URL hash follows this instance: only once a link was opened or copied
+  const [isLinked, setIsLinked] = useState<boolean>(false)
+  const canShare = graphNodes.length <= MAX_SHARED_NODES
+  const [linkError, setLinkError] = useState<StringKey | null>(null)
+  const [linkStatus, setLinkStatus] = useState<StringKey | null>(null)
+  const [isExporting, setIsExporting] = useState<boolean>(false)
+  const [isEditMode, setIsEditMode] = useState<boolean>(false)
+  const [editTool, setEditTool] = useState<EditTool>('move')
+  const nodePositionsRef = useRef<NodePositions | null>(null)
+  const viewportRef = useRef<{ zoom: number, pan: { x: number, y: number } } | null>(null)
+  const editModeRef = useRef<boolean>(isEditMode)
+  editModeRef.current = isEditMode
+  const editToolRef = useRef<EditTool>(editTool)
+  editToolRef.current = editTool
+  const graphEditRef = useRef<(edit: GraphEdit) => void>(() => {})
 
   // Memoize edge classification events
   const events = useMemo(() => 
-    classifyEdges(graphNodes, graphEdges, isDirected),
-    [graphNodes, graphEdges, isDirected]
+    classifyEdges(graphNodes, graphEdges, isDirected, isSccMode, traversal),
+    [graphNodes, graphEdges, isDirected, isSccMode, traversal]
+  )
+
+  // Large graphs batch their updates and skip frames while playing
+  const isPerformanceMode = graphNodes.length + graphEdges.length > PERFORMANCE_THRESHOLD
+  const stepper = useStepper(events.length, isPerformanceMode ? Math.ceil(events.length / PERFORMANCE_TICKS) : 1)
+  const { step } = stepper
+
+  const nextBridge = useMemo(() => {
+    if (isDirected) return -1
+    for (let index = step; index < events.length; index++) {
+      if (events[index].type === EVENT_TYPES.BRIDGE) return index
+    }
+    return -1
+  }, [events, step, isDirected])
+
+  const dfsTree = useMemo(
+    () => layoutName === 'dfs-tree' ? computeDfsTreeLayout(events) : null,
+    [layoutName, events]
+  )
+
+  const visualState = useMemo(
+    () => deriveVisualState(events, step, palette),
+    [events, step, palette]
   )
+  const visualStateRef = useRef<TarjanVisualState>(visualState)
+  visualStateRef.current = visualState
 
-  // Ensure component is mounted before initializing Cytoscape
+  const elements = useMemo(
+    () => buildElements(graphNodes, graphEdges, graphWeights, dfsTree),
+    [graphNodes, graphEdges, graphWeights, dfsTree]
+  )
+
+  const stylesheet = useMemo(
+    () => createStylesheet(palette, isDirected),
+    [palette, isDirected]
+  )
+
+  // Recomputed with the elements so a rebuilt graph reads the latest dragged positions
+  const layout = useMemo(
+    () => buildLayout(graphNodes, isDirected, nodePositionsRef.current, layoutName, traversal.root, dfsTree),
+    [elements, graphNodes, isDirected, layoutName, traversal.root, dfsTree]
+  )
+
+  // Restore the state shared through the URL hash, namespaced per instance
   useEffect(() => {
-    setMounted(true)
-  }, [])
+    const instances = Array.from(document.querySelectorAll('[data-tarjan-visualizer]'))
+    const key = `${HASH_KEY_PREFIX}-${id ?? instances.indexOf(rootRef.current as Element)}`
+    const encoded = readHashSegment(key)
+    if (!encoded) {
+      setHashKey(key)
+      return
+    }
+
+    let cancelled = false
+    decodeSharedState(encoded)
+      .then(shared => {
+        if (cancelled) return
+        setGraphNodes(shared.nodes)
+        setGraphEdges(shared.edges)
+        setGraphWeights(shared.weights)
+        setIsDirected(shared.isDirected)
+        setIsSccMode(shared.isSccMode)
+        setTraversal(shared.traversal)
+        stepper.setStep(shared.step)
+        setInputFormat(INPUT_FORMATS.EDGES)
+        setNodeCountInput(String(shared.nodes.length))
+        setOneIndexed(false)
+        setEdgesInput(formatEdgeList(shared.edges, shared.weights, false))
+        setIsLinked(true)
+      })
+      .catch(error => {
+        if (cancelled) return
+        console.error('Failed to restore shared state:', error)
+        setLinkError('linkInvalid')
+      })
+      .finally(() => {
+        if (!cancelled) setHashKey(key)
+      })
 
-  // Initialize Cytoscape when mounted and container is ready
+    return () => {
+      cancelled = true
+    }
+  }, [id])
+
+  // Keep a shared link up to date. Other visitors' URLs are left alone, so the
+  // table of contents' heading anchors keep working.
   useEffect(() => {
-    if (!mounted || !containerRef.current) return
+    if (!hashKey || !isLinked || !canShare) return
 
-    // Add a small delay to ensure DOM is fully rendered
+    let cancelled = false
     const timer = setTimeout(() => {
-      if (!containerRef.current) return
-
-      try {
-        console.log('Initializing Cytoscape...')
-        cyRef.current = createCytoscapeInstance(
-          containerRef.current as HTMLElement,
-          graphNodes,
-          graphEdges,
-          isDirected,
-          palette
-        )
-        console.log('Cytoscape initialized successfully')
-      } catch (error) {
-        console.error('Failed to initialize Cytoscape:', error)
-      }
-    }, 100)
+      encodeSharedState({ nodes: graphNodes, edges: graphEdges, weights: graphWeights, isDirected, isSccMode, traversal, step })
+        .then(encoded => {
+          if (cancelled) return
+          window.history.replaceState(window.history.state, '', buildHash(hashKey, encoded))
+        })
+        .catch(error => console.error('Failed to update URL hash:', error))
+    }, 300)
 
     return () => {
+      cancelled = true
       clearTimeout(timer)
-      if (cyRef.current) {
-        cyRef.current.destroy()
-        cyRef.current = null
-      }
     }
-  }, [mounted, isDirected, graphNodes, graphEdges, palette])
+  }, [hashKey, isLinked, canShare, graphNodes, graphEdges, graphWeights, isDirected, isSccMode, traversal, step])
 
-  const handleNextStep = () => {
-    if (!cyRef.current || step >= events.length) return
+  /**
+   * Restores the viewport and registers the editing handlers on every new instance
+   */
+  const handleCanvasInit = (cy: Core) => {
+    if (nodePositionsRef.current && viewportRef.current) {
+      cy.viewport(viewportRef.current)
+    }
+    cy.autoungrabify(editModeRef.current && editToolRef.current === 'connect')
 
-    const event = events[step]
-    const element = cyRef.current.getElementById(event.id)
-    
-    if (event.type === 'node') {
-      // Handle node state changes
-      if (event.status === 'visiting') {
-        // Remove current class from all nodes
-        cyRef.current.nodes().removeClass('current')
-        // Add visiting and current to this node
-        element.removeClass('visited').addClass('visiting').addClass('current')
-      } else if (event.status === 'visited') {
-        // Remove current class from this node
-        element.removeClass('visiting').removeClass('current').addClass('visited')
-        // Add current class back to parent if it exists
-        if (event.parent !== null && event.parent !== undefined) {
-          const parentElement = cyRef.current.getElementById(String(event.parent))
-          parentElement.addClass('current')
-        }
+    // Canvas editing: handlers read the refs so they never go stale
+    let edgeSource: number | null = null
+    let dragStart = { x: 0, y: 0 }
+    let dragDistance = 0
+    // Only the add-node tool adds nodes, so a tap that clears the selection leaves the graph alone
+    cy.on('tap', event => {
+      if (editModeRef.current && editToolRef.current === 'addNode' && event.target === cy) {
+        graphEditRef.current({ kind: 'addNode', position: event.position })
+      }
+    })
+    cy.on('tapstart', 'node', event => {
+      if (editModeRef.current && editToolRef.current === 'connect') {
+        edgeSource = Number(event.target.id())
+        dragStart = event.renderedPosition
+        dragDistance = 0
+        event.target.addClass('edge-source')
       }
+    })
+    cy.on('tapdrag', event => {
+      if (edgeSource === null) return
+      const { x, y } = event.renderedPosition
+      dragDistance = Math.max(dragDistance, Math.hypot(x - dragStart.x, y - dragStart.y))
+    })
+    cy.on('tapend', event => {
+      if (edgeSource === null) return
+      const source = edgeSource
+      edgeSource = null
+      cy.nodes().removeClass('edge-source')
+      if (event.target === cy || !event.target.isNode()) return
+      const target = Number(event.target.id())
+      // A plain click on a node is not a request for a self-loop
+      if (target !== source || dragDistance > SELF_LOOP_DRAG) {
+        graphEditRef.current({ kind: 'addEdge', source, target })
+      }
+    })
+    cy.on('dragfree', 'node', () => {
+      nodePositionsRef.current = readPositions(cy)
+    })
+  }
+
+  const handleCanvasDestroy = (cy: Core) => {
+    viewportRef.current = { zoom: cy.zoom(), pan: { ...cy.pan() } }
+  }
+
+  // Nodes can only be dragged while not drawing edges
+  useEffect(() => {
+    if (cyRef.current) {
+      cyRef.current.autoungrabify(isEditMode && editTool === 'connect')
+    }
+  }, [isEditMode, editTool])
+
+  // While editing, apply textarea changes as soon as they parse
+  useEffect(() => {
+    if (!isEditMode) return
+
+    const timer = setTimeout(() => {
+      const { graph } = parseGraphInput(edgesInput, inputFormat, {
+        nodeCount: parseInt(nodeCountInput, 10),
+        oneIndexed,
+        isDirected
+      })
+      if (!graph || (graph.directed !== undefined && graph.directed !== isDirected)) return
+      const unchanged = JSON.stringify([graph.nodes, graph.edges, graph.weights]) ===
+        JSON.stringify([graphNodes, graphEdges, graphWeights])
+      if (unchanged) return
+
+      setConfigErrors([])
+      replaceGraph(graph.nodes, graph.edges, graph.weights, cyRef.current ? readPositions(cyRef.current) : nodePositionsRef.current)
+    }, 500)
+
+    return () => clearTimeout(timer)
+  }, [isEditMode, edgesInput, nodeCountInput, inputFormat, oneIndexed])
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (stepper.handleKeyDown(e) || isFormField(e.target)) return
+
+    if (isEditMode && (e.key === 'Delete' || e.key === 'Backspace')) {
+      e.preventDefault()
+      handleDeleteSelected()
+    }
+  }
+
+  const handleToggleDirection = () => {
+    setIsDirected(!isDirected)
+    stepper.reset()
+  }
+
+  const handleToggleScc = () => {
+    const newSccMode = !isSccMode
+    setIsSccMode(newSccMode)
+    // SCCs are only defined for directed graphs
+    if (newSccMode && !isDirected) {
+      setIsDirected(true)
+    }
+    stepper.reset()
+  }
+
+  /**
+   * Swaps in a new graph and restarts the event stream, like the apply button
+   */
+  const replaceGraph = (
+    nodes: number[],
+    edges: Array<[number, number]>,
+    weights: Array<number | null>,
+    positions: NodePositions | null
+  ) => {
+    setGraphNodes(nodes)
+    setGraphEdges(edges)
+    setGraphWeights(weights)
+    nodePositionsRef.current = positions
+    if (!nodes.includes(traversal.root)) {
+      setTraversal({ ...traversal, root: DEFAULT_TRAVERSAL.root })
+    }
+    stepper.reset()
+  }
+
+  /**
+   * Applies a canvas edit and writes the result back into the textarea
+   */
+  const applyGraphEdit = (edit: GraphEdit) => {
+    const cy = cyRef.current
+    const positions = cy ? readPositions(cy) : {}
+    let nodes = graphNodes
+    let edges = graphEdges
+    let weights = graphWeights
+
+    if (edit.kind === 'addNode') {
+      const newId = nodes.length
+      nodes = [...nodes, newId]
+      positions[String(newId)] = edit.position
+    } else if (edit.kind === 'addEdge') {
+      edges = [...edges, [edit.source, edit.target]]
+      weights = [...weights, null]
     } else {
-      // Handle edge classification
-      element.addClass(event.type)
+      // Drop the selected nodes with their edges, then renumber the rest to stay 0..n-1
+      const removedNodes = new Set(edit.nodeIds)
+      const removedEdges = new Set(edit.edgeIds)
+      const keep = edges.map(([u, v], index) =>
+        !removedNodes.has(u) && !removedNodes.has(v) && !removedEdges.has(edgeId(index)))
+      const renumber: Record<number, number> = {}
+      const remaining = nodes.filter(node => !removedNodes.has(node))
+      remaining.forEach((node, index) => {
+        renumber[node] = index
+      })
+      const renumbered: NodePositions = {}
+      remaining.forEach(node => {
+        if (positions[String(node)]) renumbered[String(renumber[node])] = positions[String(node)]
+      })
+      nodes = remaining.map(node => renumber[node])
+      edges = edges.filter((_, index) => keep[index]).map(([u, v]) => [renumber[u], renumber[v]] as [number, number])
+      weights = weights.filter((_, index) => keep[index])
+      Object.keys(positions).forEach(key => delete positions[key])
+      Object.assign(positions, renumbered)
     }
-    
-    setStep(step + 1)
+
+    replaceGraph(nodes, edges, weights, positions)
+    setConfigErrors([])
+    setInputFormat(INPUT_FORMATS.EDGES)
+    setNodeCountInput(String(nodes.length))
+    setEdgesInput(formatEdgeList(edges, weights, oneIndexed))
   }
+  graphEditRef.current = applyGraphEdit
 
-  const handleReset = () => {
+  const handleDeleteSelected = () => {
     if (!cyRef.current) return
+    const selected = cyRef.current.$(':selected')
+    if (selected.empty()) return
+    applyGraphEdit({
+      kind: 'remove',
+      nodeIds: selected.nodes().map(node => Number(node.id())),
+      edgeIds: selected.edges().map(edge => edge.id())
+    })
+  }
 
-    // Reset edges
-    cyRef.current
-      .edges()
-      .removeClass(EDGE_TYPES.TREE)
-      .removeClass(EDGE_TYPES.BACK)
-      .removeClass(EDGE_TYPES.FORWARD)
-      .removeClass(EDGE_TYPES.CROSS)
-    
-    // Reset nodes
-    cyRef.current
-      .nodes()
-      .removeClass('visiting')
-      .removeClass('visited')
-      .removeClass('current')
-    
-    setStep(0)
+  const handleJumpToBridge = () => {
+    stepper.setIsPlaying(false)
+    // Land right after the bridge event so it is already highlighted
+    stepper.seek(nextBridge + 1)
   }
 
-  const handleToggleDirection = () => {
-    const newDirection = !isDirected
-    setIsDirected(newDirection)
-    setStep(0)
-    
-    // Update arrow styles immediately
-    if (cyRef.current) {
-      const arrowShape = newDirection ? 'triangle' : 'none'
-      cyRef.current.style()
-        .selector('edge')
-        .style({
-          'target-arrow-shape': arrowShape
-        })
-        .update()
-      
-      // Update for each edge type
-      Object.values(EDGE_TYPES).forEach(type => {
-        cyRef.current!.style()
-          .selector(`.${type}`)
-          .style({
-            'target-arrow-shape': arrowShape
-          })
-          .update()
-      })
+  const handleTraversalChange = (next: TraversalOptions) => {
+    setTraversal(next)
+    stepper.reset()
+  }
+
+  const handleLayoutChange = (next: LayoutName) => {
+    // A newly chosen layout replaces manually dragged positions
+    nodePositionsRef.current = null
+    setLayoutName(next)
+  }
+
+  const handleToggleEditMode = () => {
+    setIsEditMode(!isEditMode)
+  }
+
+  const handleApplyConfig = () => {
+    // Validate and apply configuration
+    const { graph, errors } = parseGraphInput(edgesInput, inputFormat, {
+      nodeCount: parseInt(nodeCountInput, 10),
+      oneIndexed,
+      isDirected
+    })
+    if (!graph) {
+      setConfigErrors(errors)
+      return
+    }
+
+    setConfigErrors([])
+    replaceGraph(graph.nodes, graph.edges, graph.weights, null)
+    if (graph.directed !== undefined && graph.directed !== isDirected) {
+      // DOT input declares its own direction
+      setIsDirected(graph.directed)
+      if (!graph.directed) setIsSccMode(false)
     }
   }
 
-  const isComplete = step >= events.length
+  const handleCopyLink = async () => {
+    const key = hashKey ?? `${HASH_KEY_PREFIX}-${id ?? 0}`
+    try {
+      const encoded = await encodeSharedState({ nodes: graphNodes, edges: graphEdges, weights: graphWeights, isDirected, isSccMode, traversal, step })
+      const url = `${window.location.origin}${window.location.pathname}${window.location.search}${buildHash(key, encoded)}`
+      await navigator.clipboard.writeText(url)
+      window.history.replaceState(window.history.state, '', buildHash(key, encoded))
+      setIsLinked(true)
+      setLinkStatus('linkCopied')
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+      setLinkStatus('linkCopyFailed')
+    }
+    setTimeout(() => setLinkStatus(null), 2000)
+  }
+
+  const handleExportPng = async () => {
+    if (!cyRef.current) return
+    try {
+      downloadUrl(`tarjan-step-${step}.png`, await renderSnapshot(cyRef.current, getLegendGroups(palette, isDirected, isSccMode, t).flat(), palette))
+    } catch (error) {
+      console.error('Failed to export PNG:', error)
+    }
+  }
+
+  const handleExportFrames = async () => {
+    const cy = cyRef.current
+    if (!cy) return
+
+    stepper.setIsPlaying(false)
+    setIsExporting(true)
+    try {
+      // Render every step in turn, then put the current one back
+      const legend = getLegendGroups(palette, isDirected, isSccMode, t).flat()
+      const frames: string[] = []
+      for (let frame = 0; frame <= events.length; frame++) {
+        applyVisualState(cy, deriveVisualState(events, frame, palette))
+        frames.push(await renderSnapshot(cy, legend, palette))
+      }
+      applyVisualState(cy, visualStateRef.current)
+      const svg = await buildAnimatedSvg(frames, 1 / stepper.speed)
+      downloadBlob('tarjan-steps.svg', new Blob([svg], { type: 'image/svg+xml' }))
+    } catch (error) {
+      console.error('Failed to export frames:', error)
+      applyVisualState(cy, visualStateRef.current)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleExportTrace = () => {
+    const trace = {
+      graph: { nodes: graphNodes, edges: graphEdges, weights: graphWeights, isDirected, isSccMode, traversal },
+      events
+    }
+    downloadBlob('tarjan-trace.json', new Blob([JSON.stringify(trace, null, 2)], { type: 'application/json' }))
+  }
+
+  const activeLine = step > 0 ? events[step - 1].line ?? null : null
 
   return (
-    <div>
-      <div ref={containerRef} style={STYLES.container as CSSProperties} />
-      <Controls 
-        onNext={handleNextStep} 
-        onReset={handleReset} 
-        isComplete={isComplete}
-        isDirected={isDirected}
-        onToggleDirection={handleToggleDirection}
+    <div
+      ref={rootRef}
+      data-tarjan-visualizer=""
+      data-visualizer=""
+      tabIndex={0}
+      aria-keyshortcuts="ArrowLeft ArrowRight Space Home End"
+      onKeyDown={handleKeyDown}
+      style={fullscreen.isFullscreen ? STYLES.fullscreen : undefined}
+    >
+      <FocusRing />
+      {isPerformanceMode && (
+        <div style={{ marginBottom: 8, fontSize: 14 } as CSSProperties}>
+          {t('performanceNotice')}
+        </div>
+      )}
+      {linkError && (
+        <div style={{ color: '#ef4444', marginBottom: 8 } as CSSProperties}>{t(linkError)}</div>
+      )}
+      <div style={STYLES.graphRow as CSSProperties}>
+        <CytoscapeCanvas
+          cyRef={cyRef}
+          elements={elements}
+          stylesheet={stylesheet}
+          layout={layout}
+          visualState={visualState}
+          onInit={handleCanvasInit}
+          onDestroy={handleCanvasDestroy}
+          performance={isPerformanceMode}
+          ariaLabel={t('canvasLabel')}
+          style={{ flex: 1, minWidth: 0, ...(fullscreen.isFullscreen ? STYLES.fullscreenCanvas : {}) } as CSSProperties}
+        />
+        {isSccMode && (
+          <SccPanel t={t} stack={visualState.stack} components={visualState.components} palette={palette} />
+        )}
+      </div>
+      {/* Large graphs would rebuild thousands of rows every step */}
+      {!isPerformanceMode && (
+        <>
+          <ScreenReaderTable
+            caption={t('mirrorNodes')}
+            columns={[t('columnNode'), t('columnDfnLow'), t('columnState')]}
+            rows={describeNodes(graphNodes, visualState, t)}
+          />
+          <ScreenReaderTable
+            caption={t('mirrorEdges')}
+            columns={[t('columnEdge'), t('columnType')]}
+            rows={describeEdges(graphEdges, isDirected, visualState, t)}
+          />
+        </>
+      )}
+      <Narration
+        events={events}
+        step={step}
+        onSeek={stepper.seek}
+        messages={MESSAGES[locale]}
+        placeholder={t('placeholder')}
+      />
+      <ControlsBar stepper={stepper} locale={locale}>
+        <ViewControls cyRef={cyRef} fullscreen={fullscreen} locale={locale} />
+        <ActionButtons
+          t={t}
+          isDirected={isDirected}
+          onToggleDirection={handleToggleDirection}
+          isSccMode={isSccMode}
+          onToggleScc={handleToggleScc}
+          onCopyLink={handleCopyLink}
+          linkStatus={linkStatus ? t(linkStatus) : ''}
+          canShare={canShare}
+          onExportPng={handleExportPng}
+          onExportFrames={handleExportFrames}
+          onExportTrace={handleExportTrace}
+          isExporting={isExporting}
+          isEditMode={isEditMode}
+          onToggleEditMode={handleToggleEditMode}
+          isPerformanceMode={isPerformanceMode}
+          onJumpToBridge={isDirected ? null : handleJumpToBridge}
+          hasNextBridge={nextBridge >= 0}
+        />
+      </ControlsBar>
+      <TraversalSettings
+        t={t}
+        nodes={graphNodes}
+        traversal={traversal}
+        onTraversalChange={handleTraversalChange}
+        layout={layoutName}
+        onLayoutChange={handleLayoutChange}
       />
+      {isEditMode && (
+        <EditToolbar t={t} tool={editTool} onToolChange={setEditTool} onDeleteSelected={handleDeleteSelected} />
+      )}
+      <CodePanel lines={SOURCE_CODE.map(([, text]) => text)} activeLine={activeLine}>
+        <CallStackPanel t={t} callStack={visualState.callStack} />
+      </CodePanel>
       <div style={{ marginTop: 12, width: '100%' } as CSSProperties}>
-        <div style={{ fontWeight: 'bold', marginBottom: 8 } as CSSProperties}>自訂圖形</div>
-        <div style={{ display: 'flex', gap: 12, alignItems: 'flex-start', flexWrap: 'wrap' } as CSSProperties}>
+        <div style={{ fontWeight: 'bold', marginBottom: 8 } as CSSProperties}>{t('customGraph')}</div>
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginBottom: 8 } as CSSProperties}>
           <label style={{ display: 'flex', alignItems: 'center', gap: 8 } as CSSProperties}>
-            <span>節點數量</span>
-            <input
-              type="number"
-              min={1}
-              value={nodeCountInput}
-              onChange={e => setNodeCountInput(e.target.value)}
-              style={{ width: 80 } as CSSProperties}
-            />
+            <span>{t('inputFormat')}</span>
+            <select value={inputFormat} onChange={e => setInputFormat(e.target.value as InputFormat)}>
+              {INPUT_FORMAT_OPTIONS.map(({ format, label }) => (
+                <option key={format} value={format}>{t(label)}</option>
+              ))}
+            </select>
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4 } as CSSProperties}>
+            <input type="checkbox" checked={oneIndexed} onChange={e => setOneIndexed(e.target.checked)} />
+            <span>{t('oneIndexed')}</span>
           </label>
+        </div>
+        <div style={{ display: 'flex', gap: 12, alignItems: 'flex-start', flexWrap: 'wrap' } as CSSProperties}>
+          {inputFormat === INPUT_FORMATS.EDGES && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: 8 } as CSSProperties}>
+              <span>{t('nodeCount')}</span>
+              <input
+                type="number"
+                min={1}
+                value={nodeCountInput}
+                onChange={e => setNodeCountInput(e.target.value)}
+                style={{ width: 80 } as CSSProperties}
+              />
+            </label>
+          )}
           <div style={{ flex: 1, minWidth: 280 } as CSSProperties}>
-            <div style={{ marginBottom: 4 } as CSSProperties}>邊清單（每行一條，格式：u v）</div>
+            <div id={`${formId}-hint`} style={{ marginBottom: 4 } as CSSProperties}>
+              {t(INPUT_FORMAT_OPTIONS.find(({ format }) => format === inputFormat)?.hint ?? 'formatEdgesHint')}
+            </div>
             <textarea
+              aria-label={t('customGraph')}
+              aria-describedby={`${formId}-hint`}
+              aria-invalid={configErrors.length > 0}
               value={edgesInput}
               onChange={e => setEdgesInput(e.target.value)}
               rows={6}
@@ -548,65 +1860,34 @@ export default function TarjanVisualization() {
             />
           </div>
         </div>
-        {configError && (
-          <div style={{ color: '#ef4444', marginTop: 8 } as CSSProperties}>{configError}</div>
+        {configErrors.length > 0 && (
+          <ul role="alert" style={{ color: '#ef4444', marginTop: 8 } as CSSProperties}>
+            {configErrors.map(error => formatParseError(error, t)).map(message => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
         )}
         <div style={{ marginTop: 8 } as CSSProperties}>
           <button
             style={{ marginRight: 8 } as CSSProperties}
-            onClick={() => {
-              // Validate and apply configuration
-              const n = parseInt(nodeCountInput, 10)
-              if (isNaN(n) || n <= 0) {
-                setConfigError('節點數量無效，請輸入正整數')
-                return
-              }
-              // Build nodes
-              const newNodes = Array.from({ length: n }, (_, i) => i)
-              // Parse edges
-              const lines = edgesInput.split(/\r?\n/)
-              const parsed: Array<[number, number]> = []
-              const seen = new Set<string>()
-              for (const line of lines) {
-                const m = line.trim().match(/^(\d+)\s+(\d+)$/)
-                if (!m) continue
-                const u = parseInt(m[1], 10)
-                const v = parseInt(m[2], 10)
-                if (isNaN(u) || isNaN(v)) continue
-                if (u < 0 || u >= n || v < 0 || v >= n) continue
-                const key = isDirected ? `${u}-${v}` : `${Math.min(u, v)}-${Math.max(u, v)}`
-                if (seen.has(key)) continue
-                seen.add(key)
-                parsed.push([u, v])
-              }
-              if (parsed.length === 0) {
-                setConfigError('邊清單為空或無效，至少需要一條合法邊')
-                return
-              }
-              setConfigError('')
-              setGraphNodes(newNodes)
-              setGraphEdges(parsed)
-              setStep(0)
-              if (cyRef.current) {
-                cyRef.current
-                  .edges()
-                  .removeClass(EDGE_TYPES.TREE)
-                  .removeClass(EDGE_TYPES.BACK)
-                  .removeClass(EDGE_TYPES.FORWARD)
-                  .removeClass(EDGE_TYPES.CROSS)
-                cyRef.current
-                  .nodes()
-                  .removeClass('visiting')
-                  .removeClass('visited')
-                  .removeClass('current')
-              }
-            }}
+            onClick={handleApplyConfig}
           >
-            套用設定
+            {t('applyConfig')}
           </button>
         </div>
       </div>
-      <Legend palette={palette} />
+      <Legend title={t('legendTitle')} groups={getLegendGroups(palette, isDirected, isSccMode, t)}>
+        <label>
+          {t('palette')}{' '}
+          <select value={edgeScheme} onChange={e => setEdgeScheme(e.target.value as EdgeScheme)}>
+            {EDGE_SCHEME_OPTIONS.map(({ scheme, label }) => (
+              <option key={scheme} value={scheme}>{t(label)}</option>
+            ))}
+          </select>
+        </label>
+      </Legend>
     </div>
   )
 }
+
+export default withPageLifecycle(TarjanVisualization)
@@ -0,0 +1,535 @@
+import { Translations } from '../visualizer'
+
+// Every user-facing string of the Tarjan visualizer, one table per locale.
+// `{name}` placeholders are filled by createTranslator / formatMessage.
+
+// ============================================================================
+// Narration
+// ============================================================================
+
+const ZH_TW_MESSAGES = {
+  visitRoot: '從新的根節點 {u} 開始 DFS：dfn[{u}] = low[{u}] = {dfn}，{u} 變為 VISITING',
+  visit: '進入節點 {u}（父節點 {fa}）：dfn[{u}] = low[{u}] = {dfn}，{u} 變為 VISITING',
+  finishRoot: '{u} 的鄰居都處理完了，{u} 變為 VISITED，這棵 DFS 樹走完了',
+  finish: '{u} 的鄰居都處理完了，{u} 變為 VISITED，回到父節點 {fa}',
+  tree: 'v={v} 還是 UNVISITED，所以 {u}→{v} 是樹邊，往下呼叫 dfs({v}, {u})',
+  back: 'v={v} 還是 VISITING（是 {u} 的祖先），所以 {u}→{v} 是回邊',
+  forward: 'v={v} 已經 VISITED，且 dfn[{v}]={dfnV} > dfn[{u}]={dfnU}（是 {u} 的子孫），所以 {u}→{v} 是前向邊',
+  cross: 'v={v} 已經 VISITED，且 dfn[{v}]={dfnV} < dfn[{u}]={dfnU}（既非祖先也非子孫），所以 {u}→{v} 是橫跨邊',
+  lowTree: '從子節點 {v} 回來：low[{u}] = min(low[{u}], low[{v}]) = min({before}, {lowV}) = {low}',
+  lowBack: '沿回邊更新：low[{u}] = min(low[{u}], dfn[{v}]) = min({before}, {dfnV}) = {low}',
+  lowCross: '{v} 還在堆疊中：low[{u}] = min(low[{u}], dfn[{v}]) = min({before}, {dfnV}) = {low}',
+  bridge: 'dfn[{u}]={dfnU} < low[{v}]={lowV}：{v} 無法繞回 {u} 之上，所以 {u}-{v} 是橋',
+  articulation: 'low[{v}]={lowV} >= dfn[{u}]={dfnU}：{v} 最遠只能回到 {u}，所以 {u} 是割點',
+  rootArticulation: '{u} 是根節點且有 {child} 棵 DFS 子樹，所以 {u} 是割點',
+  push: '將 {u} 推入 Tarjan 堆疊',
+  pop: 'low[{u}] == dfn[{u}] = {dfn}，{u} 是 SCC 的根：彈出 {w}',
+  scc: '彈出的 {{members}} 構成一個強連通分量'
+}
+
+/**
+ * Narration for every event, keyed by Message.key
+ */
+export const MESSAGES: Translations<keyof typeof ZH_TW_MESSAGES> = {
+  'zh-TW': ZH_TW_MESSAGES,
+  'zh-CN': {
+    visitRoot: '从新的根节点 {u} 开始 DFS：dfn[{u}] = low[{u}] = {dfn}，{u} 变为 VISITING',
+    visit: '进入节点 {u}（父节点 {fa}）：dfn[{u}] = low[{u}] = {dfn}，{u} 变为 VISITING',
+    finishRoot: '{u} 的邻居都处理完了，{u} 变为 VISITED，这棵 DFS 树走完了',
+    finish: '{u} 的邻居都处理完了，{u} 变为 VISITED，回到父节点 {fa}',
+    tree: 'v={v} 还是 UNVISITED，所以 {u}→{v} 是树边，往下调用 dfs({v}, {u})',
+    back: 'v={v} 还是 VISITING（是 {u} 的祖先），所以 {u}→{v} 是返祖边',
+    forward: 'v={v} 已经 VISITED，且 dfn[{v}]={dfnV} > dfn[{u}]={dfnU}（是 {u} 的子孙），所以 {u}→{v} 是前向边',
+    cross: 'v={v} 已经 VISITED，且 dfn[{v}]={dfnV} < dfn[{u}]={dfnU}（既非祖先也非子孙），所以 {u}→{v} 是横叉边',
+    lowTree: '从子节点 {v} 回来：low[{u}] = min(low[{u}], low[{v}]) = min({before}, {lowV}) = {low}',
+    lowBack: '沿返祖边更新：low[{u}] = min(low[{u}], dfn[{v}]) = min({before}, {dfnV}) = {low}',
+    lowCross: '{v} 还在栈中：low[{u}] = min(low[{u}], dfn[{v}]) = min({before}, {dfnV}) = {low}',
+    bridge: 'dfn[{u}]={dfnU} < low[{v}]={lowV}：{v} 无法绕回 {u} 之上，所以 {u}-{v} 是桥',
+    articulation: 'low[{v}]={lowV} >= dfn[{u}]={dfnU}：{v} 最远只能回到 {u}，所以 {u} 是割点',
+    rootArticulation: '{u} 是根节点且有 {child} 棵 DFS 子树，所以 {u} 是割点',
+    push: '将 {u} 压入 Tarjan 栈',
+    pop: 'low[{u}] == dfn[{u}] = {dfn}，{u} 是 SCC 的根：弹出 {w}',
+    scc: '弹出的 {{members}} 构成一个强连通分量'
+  },
+  en: {
+    visitRoot: 'Start DFS from the new root {u}: dfn[{u}] = low[{u}] = {dfn}, {u} becomes VISITING',
+    visit: 'Enter node {u} (parent {fa}): dfn[{u}] = low[{u}] = {dfn}, {u} becomes VISITING',
+    finishRoot: 'All neighbors of {u} are done: {u} becomes VISITED and this DFS tree is finished',
+    finish: 'All neighbors of {u} are done: {u} becomes VISITED, back to the parent {fa}',
+    tree: 'v={v} is still UNVISITED, so {u}→{v} is a tree edge; call dfs({v}, {u})',
+    back: 'v={v} is still VISITING (an ancestor of {u}), so {u}→{v} is a back edge',
+    forward: 'v={v} is already VISITED and dfn[{v}]={dfnV} > dfn[{u}]={dfnU} (a descendant of {u}), so {u}→{v} is a forward edge',
+    cross: 'v={v} is already VISITED and dfn[{v}]={dfnV} < dfn[{u}]={dfnU} (neither ancestor nor descendant), so {u}→{v} is a cross edge',
+    lowTree: 'Back from the child {v}: low[{u}] = min(low[{u}], low[{v}]) = min({before}, {lowV}) = {low}',
+    lowBack: 'Update along the back edge: low[{u}] = min(low[{u}], dfn[{v}]) = min({before}, {dfnV}) = {low}',
+    lowCross: '{v} is still on the stack: low[{u}] = min(low[{u}], dfn[{v}]) = min({before}, {dfnV}) = {low}',
+    bridge: 'dfn[{u}]={dfnU} < low[{v}]={lowV}: {v} cannot climb back above {u}, so {u}-{v} is a bridge',
+    articulation: 'low[{v}]={lowV} >= dfn[{u}]={dfnU}: {v} can climb back no higher than {u}, so {u} is a cut vertex',
+    rootArticulation: '{u} is a root with {child} DFS subtrees, so {u} is a cut vertex',
+    push: 'Push {u} onto the Tarjan stack',
+    pop: 'low[{u}] == dfn[{u}] = {dfn}, so {u} is the root of an SCC: pop {w}',
+    scc: 'The popped nodes {{members}} form a strongly connected component'
+  },
+  ja: {
+    visitRoot: '新しい根 {u} から DFS を開始：dfn[{u}] = low[{u}] = {dfn}、{u} は VISITING になる',
+    visit: 'ノード {u} に入る（親 {fa}）：dfn[{u}] = low[{u}] = {dfn}、{u} は VISITING になる',
+    finishRoot: '{u} の隣接ノードをすべて処理したので {u} は VISITED になり、この DFS 木は終わり',
+    finish: '{u} の隣接ノードをすべて処理したので {u} は VISITED になり、親 {fa} に戻る',
+    tree: 'v={v} はまだ UNVISITED なので {u}→{v} は木辺、dfs({v}, {u}) を呼ぶ',
+    back: 'v={v} はまだ VISITING（{u} の祖先）なので {u}→{v} は後退辺',
+    forward: 'v={v} は VISITED で dfn[{v}]={dfnV} > dfn[{u}]={dfnU}（{u} の子孫）なので {u}→{v} は前進辺',
+    cross: 'v={v} は VISITED で dfn[{v}]={dfnV} < dfn[{u}]={dfnU}（祖先でも子孫でもない）なので {u}→{v} は横断辺',
+    lowTree: '子 {v} から戻る：low[{u}] = min(low[{u}], low[{v}]) = min({before}, {lowV}) = {low}',
+    lowBack: '後退辺で更新：low[{u}] = min(low[{u}], dfn[{v}]) = min({before}, {dfnV}) = {low}',
+    lowCross: '{v} はまだスタック上にある：low[{u}] = min(low[{u}], dfn[{v}]) = min({before}, {dfnV}) = {low}',
+    bridge: 'dfn[{u}]={dfnU} < low[{v}]={lowV}：{v} は {u} より上に戻れないので {u}-{v} は橋',
+    articulation: 'low[{v}]={lowV} >= dfn[{u}]={dfnU}：{v} は {u} までしか戻れないので {u} は関節点',
+    rootArticulation: '{u} は根で DFS 部分木が {child} 個あるので {u} は関節点',
+    push: '{u} を Tarjan スタックに積む',
+    pop: 'low[{u}] == dfn[{u}] = {dfn} なので {u} は SCC の根：{w} を取り出す',
+    scc: '取り出した {{members}} が一つの強連結成分になる'
+  }
+}
+
+// ============================================================================
+// Interface
+// ============================================================================
+
+const ZH_TW_STRINGS = {
+  // Status
+  placeholder: '按「下一步」或「播放」開始 DFS',
+  performanceNotice: '大型圖形：已開啟效能模式，播放時會跳過中間的步驟，也停用逐步動畫匯出',
+  linkInvalid: '連結中的圖形資料無效，已改用預設圖形',
+  linkCopied: '已複製連結',
+  linkCopyFailed: '複製失敗，請手動複製網址列',
+  linkTooLarge: '超過 {max} 個節點的圖形無法用連結分享',
+  // Action buttons
+  jumpToBridge: '跳到下一個橋',
+  toUndirected: '切換為無向圖',
+  toDirected: '切換為有向圖',
+  sccOn: '開啟強連通分量 (SCC) 模式',
+  sccOff: '關閉強連通分量 (SCC) 模式',
+  editStart: '編輯圖形',
+  editEnd: '結束編輯',
+  copyLink: '複製連結',
+  exportPng: '匯出 PNG',
+  exportFrames: '匯出逐步動畫 (SVG)',
+  exporting: '匯出中…',
+  exportTrace: '匯出事件 JSON',
+  // Traversal settings
+  root: '起點',
+  neighborOrder: '鄰居順序',
+  seed: '種子',
+  layout: '版面',
+  orderInsertion: '輸入順序',
+  orderAscending: '編號遞增',
+  orderDescending: '編號遞減',
+  orderRandom: '隨機（種子）',
+  layoutBreadthfirst: '分層 (breadthfirst)',
+  layoutCircle: '環狀 (circle)',
+  layoutCose: '力導向 (cose)',
+  layoutDfsTree: 'DFS 樹',
+  // Edit toolbar
+  toolMove: '移動 / 選取',
+  toolAddNode: '新增節點',
+  toolConnect: '連線',
+  deleteSelected: '刪除選取',
+  editHint: '新增節點模式下點擊空白處新增節點；連線模式下從一個節點拖到另一個節點新增邊，拖出節點再拖回來新增自環；選取後按 Delete 刪除',
+  // Side panels
+  callStack: '呼叫堆疊',
+  empty: '（空）',
+  deeperFrames: '…以及更深的 {count} 層',
+  tarjanStack: 'Tarjan 堆疊',
+  foundSccs: '已找到的 SCC',
+  // Screen reader mirror of the canvas
+  canvasLabel: 'Tarjan 演算法的圖，各節點與邊的狀態列在下方的表格',
+  staticLabel: 'Tarjan 演算法的範例圖，啟用 JavaScript 後可以逐步播放',
+  mirrorNodes: '節點狀態',
+  mirrorEdges: '邊的分類',
+  columnNode: '節點',
+  columnDfnLow: 'dfn/low',
+  columnState: '狀態',
+  columnEdge: '邊',
+  columnType: '類型',
+  stateUnvisited: '未拜訪',
+  stateVisiting: '拜訪中',
+  stateCurrent: '目前節點',
+  stateVisited: '已結束',
+  stateComponent: '第 {index} 個 SCC',
+  edgeUnclassified: '尚未分類',
+  listSeparator: '，',
+  // Legend
+  legendTitle: '邊的類型圖例',
+  legendTree: '樹邊 (Tree)',
+  legendBack: '回邊 (Back)',
+  legendForward: '前向邊 (Forward)',
+  legendCross: '橫跨邊 (Cross)',
+  legendBridge: '橋 (Bridge)',
+  legendCutVertex: '割點 (Cut vertex)',
+  legendNodeLabel: '節點標籤：編號 與 dfn/low',
+  legendOnStack: '在 Tarjan 堆疊中',
+  legendComponents: '同色節點屬於同一個強連通分量',
+  palette: '配色',
+  schemeStandard: '標準',
+  schemeColorblind: '色盲友善 (Okabe-Ito)',
+  // Custom graph form
+  customGraph: '自訂圖形',
+  inputFormat: '輸入格式',
+  oneIndexed: '節點從 1 開始編號',
+  nodeCount: '節點數量',
+  applyConfig: '套用設定',
+  formatEdges: '邊清單',
+  formatEdgesHint: '每行一條邊，格式：u v [w]',
+  formatHeader: '題目輸入 (n m)',
+  formatHeaderHint: '第一行「n m」，接著 m 行「u v [w]」',
+  formatAdjacency: '鄰接串列',
+  formatAdjacencyHint: '每行一個節點，格式：u: v1 v2 ...',
+  formatDot: 'Graphviz DOT',
+  formatDotHint: 'graph { 0 -- 1 [label=3]; } 或 digraph { 0 -> 1; }',
+  // Input errors
+  errorAtLine: '第 {line} 行：{reason}',
+  errorFieldCount: '應為「u v」或「u v w」，讀到 {count} 個欄位',
+  errorNodeInteger: '節點編號必須是非負整數',
+  errorWeight: '權重「{weight}」不是數字',
+  errorNodeRange: '節點 {node} 超出範圍 {min} ~ {max}',
+  errorNodeCount: '節點數量無效，請輸入正整數',
+  errorTooManyNodes: '節點最多 {max} 個，輸入有 {count} 個',
+  errorHeaderLine: '第一行應為「n m」（節點數 邊數）',
+  errorTooManyEdges: '超出標頭宣告的 {expected} 條邊',
+  errorMissingHeader: '缺少「n m」標頭',
+  errorTooFewEdges: '標頭宣告 {expected} 條邊，只讀到 {count} 條',
+  errorAdjacencyLine: '應為「u: v1 v2 ...」',
+  errorNeighbor: '鄰居「{token}」不是非負整數',
+  errorNodeBelow: '節點 {node} 小於 {min}',
+  errorDotHeader: '應以「graph {」或「digraph {」開頭',
+  errorAfterClose: '「}」之後不應再有內容',
+  errorDotOperator: '{kind} 的邊必須使用「{operator}」',
+  errorDotStatement: '無法解析「{statement}」，節點必須是 {min} 以上的整數',
+  errorDotMissingHeader: '缺少「graph {」或「digraph {」',
+  errorDotUnclosed: '缺少結尾的「}」',
+  errorNoEdges: '邊清單為空，至少需要一條合法邊'
+}
+
+export type StringKey = keyof typeof ZH_TW_STRINGS
+
+/**
+ * Labels, notices and input errors
+ */
+export const STRINGS: Translations<StringKey> = {
+  'zh-TW': ZH_TW_STRINGS,
+  'zh-CN': {
+    placeholder: '按“下一步”或“播放”开始 DFS',
+    performanceNotice: '大型图：已开启性能模式，播放时会跳过中间的步骤，也停用逐步动画导出',
+    linkInvalid: '链接中的图数据无效，已改用默认图',
+    linkCopied: '已复制链接',
+    linkCopyFailed: '复制失败，请手动复制地址栏',
+    linkTooLarge: '超过 {max} 个节点的图无法用链接分享',
+    jumpToBridge: '跳到下一个桥',
+    toUndirected: '切换为无向图',
+    toDirected: '切换为有向图',
+    sccOn: '开启强连通分量 (SCC) 模式',
+    sccOff: '关闭强连通分量 (SCC) 模式',
+    editStart: '编辑图',
+    editEnd: '结束编辑',
+    copyLink: '复制链接',
+    exportPng: '导出 PNG',
+    exportFrames: '导出逐步动画 (SVG)',
+    exporting: '导出中…',
+    exportTrace: '导出事件 JSON',
+    root: '起点',
+    neighborOrder: '邻居顺序',
+    seed: '种子',
+    layout: '布局',
+    orderInsertion: '输入顺序',
+    orderAscending: '编号递增',
+    orderDescending: '编号递减',
+    orderRandom: '随机（种子）',
+    layoutBreadthfirst: '分层 (breadthfirst)',
+    layoutCircle: '环形 (circle)',
+    layoutCose: '力导向 (cose)',
+    layoutDfsTree: 'DFS 树',
+    toolMove: '移动 / 选择',
+    toolAddNode: '新增节点',
+    toolConnect: '连线',
+    deleteSelected: '删除所选',
+    editHint: '新增节点模式下点击空白处新增节点；连线模式下从一个节点拖到另一个节点新增边，拖出节点再拖回来新增自环；选中后按 Delete 删除',
+    callStack: '调用栈',
+    empty: '（空）',
+    deeperFrames: '…以及更深的 {count} 层',
+    tarjanStack: 'Tarjan 栈',
+    foundSccs: '已找到的 SCC',
+    canvasLabel: 'Tarjan 算法的图，各节点与边的状态列在下方的表格',
+    staticLabel: 'Tarjan 算法的示例图，启用 JavaScript 后可以逐步播放',
+    mirrorNodes: '节点状态',
+    mirrorEdges: '边的分类',
+    columnNode: '节点',
+    columnDfnLow: 'dfn/low',
+    columnState: '状态',
+    columnEdge: '边',
+    columnType: '类型',
+    stateUnvisited: '未访问',
+    stateVisiting: '访问中',
+    stateCurrent: '当前节点',
+    stateVisited: '已结束',
+    stateComponent: '第 {index} 个 SCC',
+    edgeUnclassified: '尚未分类',
+    listSeparator: '，',
+    legendTitle: '边的类型图例',
+    legendTree: '树边 (Tree)',
+    legendBack: '返祖边 (Back)',
+    legendForward: '前向边 (Forward)',
+    legendCross: '横叉边 (Cross)',
+    legendBridge: '桥 (Bridge)',
+    legendCutVertex: '割点 (Cut vertex)',
+    legendNodeLabel: '节点标签：编号 与 dfn/low',
+    legendOnStack: '在 Tarjan 栈中',
+    legendComponents: '同色节点属于同一个强连通分量',
+    palette: '配色',
+    schemeStandard: '标准',
+    schemeColorblind: '色盲友好 (Okabe-Ito)',
+    customGraph: '自定义图',
+    inputFormat: '输入格式',
+    oneIndexed: '节点从 1 开始编号',
+    nodeCount: '节点数量',
+    applyConfig: '应用设置',
+    formatEdges: '边列表',
+    formatEdgesHint: '每行一条边，格式：u v [w]',
+    formatHeader: '题目输入 (n m)',
+    formatHeaderHint: '第一行“n m”，接着 m 行“u v [w]”',
+    formatAdjacency: '邻接表',
+    formatAdjacencyHint: '每行一个节点，格式：u: v1 v2 ...',
+    formatDot: 'Graphviz DOT',
+    formatDotHint: 'graph { 0 -- 1 [label=3]; } 或 digraph { 0 -> 1; }',
+    errorAtLine: '第 {line} 行：{reason}',
+    errorFieldCount: '应为“u v”或“u v w”，读到 {count} 个字段',
+    errorNodeInteger: '节点编号必须是非负整数',
+    errorWeight: '权重“{weight}”不是数字',
+    errorNodeRange: '节点 {node} 超出范围 {min} ~ {max}',
+    errorNodeCount: '节点数量无效，请输入正整数',
+    errorTooManyNodes: '节点最多 {max} 个，输入有 {count} 个',
+    errorHeaderLine: '第一行应为“n m”（节点数 边数）',
+    errorTooManyEdges: '超出首行声明的 {expected} 条边',
+    errorMissingHeader: '缺少“n m”首行',
+    errorTooFewEdges: '首行声明 {expected} 条边，只读到 {count} 条',
+    errorAdjacencyLine: '应为“u: v1 v2 ...”',
+    errorNeighbor: '邻居“{token}”不是非负整数',
+    errorNodeBelow: '节点 {node} 小于 {min}',
+    errorDotHeader: '应以“graph {”或“digraph {”开头',
+    errorAfterClose: '“}”之后不应再有内容',
+    errorDotOperator: '{kind} 的边必须使用“{operator}”',
+    errorDotStatement: '无法解析“{statement}”，节点必须是 {min} 以上的整数',
+    errorDotMissingHeader: '缺少“graph {”或“digraph {”',
+    errorDotUnclosed: '缺少结尾的“}”',
+    errorNoEdges: '边列表为空，至少需要一条合法的边'
+  },
+  en: {
+    placeholder: 'Press "Next" or "Play" to start the DFS',
+    performanceNotice: 'Large graph: performance mode is on, so playback skips intermediate steps and the step-by-step animation export is disabled',
+    linkInvalid: 'The graph in this link is invalid, so the default graph is shown instead',
+    linkCopied: 'Link copied',
+    linkCopyFailed: 'Copy failed, please copy the address bar manually',
+    linkTooLarge: 'Graphs with more than {max} nodes cannot be shared as a link',
+    jumpToBridge: 'Jump to next bridge',
+    toUndirected: 'Switch to undirected',
+    toDirected: 'Switch to directed',
+    sccOn: 'Turn on SCC mode',
+    sccOff: 'Turn off SCC mode',
+    editStart: 'Edit graph',
+    editEnd: 'Finish editing',
+    copyLink: 'Copy link',
+    exportPng: 'Export PNG',
+    exportFrames: 'Export step animation (SVG)',
+    exporting: 'Exporting…',
+    exportTrace: 'Export events JSON',
+    root: 'Root',
+    neighborOrder: 'Neighbor order',
+    seed: 'Seed',
+    layout: 'Layout',
+    orderInsertion: 'Input order',
+    orderAscending: 'Ascending',
+    orderDescending: 'Descending',
+    orderRandom: 'Random (seeded)',
+    layoutBreadthfirst: 'Layered (breadthfirst)',
+    layoutCircle: 'Circle',
+    layoutCose: 'Force-directed (cose)',
+    layoutDfsTree: 'DFS tree',
+    toolMove: 'Move / select',
+    toolAddNode: 'Add node',
+    toolConnect: 'Connect',
+    deleteSelected: 'Delete selected',
+    editHint: 'In add node mode click empty space to add a node; in connect mode drag from one node to another to add an edge, or out of a node and back onto it to add a self-loop; press Delete to remove the selection',
+    callStack: 'Call stack',
+    empty: '(empty)',
+    deeperFrames: '…and {count} deeper frames',
+    tarjanStack: 'Tarjan stack',
+    foundSccs: 'SCCs found',
+    canvasLabel: 'Graph for Tarjan\'s algorithm; the state of every node and edge is listed in the tables below',
+    staticLabel: 'Example graph for Tarjan\'s algorithm; enable JavaScript to step through it',
+    mirrorNodes: 'Node states',
+    mirrorEdges: 'Edge classification',
+    columnNode: 'Node',
+    columnDfnLow: 'dfn/low',
+    columnState: 'State',
+    columnEdge: 'Edge',
+    columnType: 'Type',
+    stateUnvisited: 'Not visited',
+    stateVisiting: 'Visiting',
+    stateCurrent: 'Current node',
+    stateVisited: 'Finished',
+    stateComponent: 'SCC #{index}',
+    edgeUnclassified: 'Not classified yet',
+    listSeparator: ', ',
+    legendTitle: 'Edge types',
+    legendTree: 'Tree edge',
+    legendBack: 'Back edge',
+    legendForward: 'Forward edge',
+    legendCross: 'Cross edge',
+    legendBridge: 'Bridge',
+    legendCutVertex: 'Cut vertex',
+    legendNodeLabel: 'Node label: id and dfn/low',
+    legendOnStack: 'On the Tarjan stack',
+    legendComponents: 'Nodes of one color form one SCC',
+    palette: 'Colors',
+    schemeStandard: 'Standard',
+    schemeColorblind: 'Colorblind-safe (Okabe-Ito)',
+    customGraph: 'Custom graph',
+    inputFormat: 'Input format',
+    oneIndexed: 'Nodes are numbered from 1',
+    nodeCount: 'Number of nodes',
+    applyConfig: 'Apply',
+    formatEdges: 'Edge list',
+    formatEdgesHint: 'One edge per line: u v [w]',
+    formatHeader: 'Judge input (n m)',
+    formatHeaderHint: 'A first line "n m", then m lines "u v [w]"',
+    formatAdjacency: 'Adjacency list',
+    formatAdjacencyHint: 'One node per line: u: v1 v2 ...',
+    formatDot: 'Graphviz DOT',
+    formatDotHint: 'graph { 0 -- 1 [label=3]; } or digraph { 0 -> 1; }',
+    errorAtLine: 'Line {line}: {reason}',
+    errorFieldCount: 'expected "u v" or "u v w" but found {count} fields',
+    errorNodeInteger: 'node ids must be non-negative integers',
+    errorWeight: 'weight "{weight}" is not a number',
+    errorNodeRange: 'node {node} is outside {min} ~ {max}',
+    errorNodeCount: 'Invalid number of nodes, please enter a positive integer',
+    errorTooManyNodes: 'At most {max} nodes are supported, the input has {count}',
+    errorHeaderLine: 'the first line should be "n m" (nodes edges)',
+    errorTooManyEdges: 'more than the {expected} edges the header declares',
+    errorMissingHeader: 'Missing the "n m" header',
+    errorTooFewEdges: 'The header declares {expected} edges but only {count} were read',
+    errorAdjacencyLine: 'expected "u: v1 v2 ..."',
+    errorNeighbor: 'neighbor "{token}" is not a non-negative integer',
+    errorNodeBelow: 'node {node} is less than {min}',
+    errorDotHeader: 'should start with "graph {" or "digraph {"',
+    errorAfterClose: 'nothing may follow the closing "}"',
+    errorDotOperator: 'edges of a {kind} must use "{operator}"',
+    errorDotStatement: 'cannot parse "{statement}"; nodes must be integers from {min}',
+    errorDotMissingHeader: 'Missing "graph {" or "digraph {"',
+    errorDotUnclosed: 'Missing the closing "}"',
+    errorNoEdges: 'The edge list is empty; at least one valid edge is needed'
+  },
+  ja: {
+    placeholder: '「次へ」または「再生」を押して DFS を開始',
+    performanceNotice: '大きなグラフ：パフォーマンスモードが有効なので、再生は途中のステップを飛ばし、ステップアニメーションの書き出しも無効です',
+    linkInvalid: 'リンクのグラフデータが無効なため、既定のグラフを表示しています',
+    linkCopied: 'リンクをコピーしました',
+    linkCopyFailed: 'コピーに失敗しました。アドレスバーから手動でコピーしてください',
+    linkTooLarge: '{max} 個を超えるノードのグラフはリンクで共有できない',
+    jumpToBridge: '次の橋へ',
+    toUndirected: '無向グラフに切り替え',
+    toDirected: '有向グラフに切り替え',
+    sccOn: '強連結成分 (SCC) モードをオン',
+    sccOff: '強連結成分 (SCC) モードをオフ',
+    editStart: 'グラフを編集',
+    editEnd: '編集を終了',
+    copyLink: 'リンクをコピー',
+    exportPng: 'PNG を書き出す',
+    exportFrames: 'ステップアニメーション (SVG) を書き出す',
+    exporting: '書き出し中…',
+    exportTrace: 'イベント JSON を書き出す',
+    root: '始点',
+    neighborOrder: '隣接ノードの順序',
+    seed: 'シード',
+    layout: 'レイアウト',
+    orderInsertion: '入力順',
+    orderAscending: '番号の昇順',
+    orderDescending: '番号の降順',
+    orderRandom: 'ランダム（シード）',
+    layoutBreadthfirst: '階層 (breadthfirst)',
+    layoutCircle: '円形 (circle)',
+    layoutCose: '力学モデル (cose)',
+    layoutDfsTree: 'DFS 木',
+    toolMove: '移動 / 選択',
+    toolAddNode: 'ノード追加',
+    toolConnect: '接続',
+    deleteSelected: '選択を削除',
+    editHint: 'ノード追加モードでは空白をクリックするとノードを追加、接続モードではノードからノードへドラッグすると辺を追加、ノードの外へドラッグして戻すと自己ループを追加、選択して Delete で削除',
+    callStack: 'コールスタック',
+    empty: '（空）',
+    deeperFrames: '…さらに深い {count} 段',
+    tarjanStack: 'Tarjan スタック',
+    foundSccs: '見つかった SCC',
+    canvasLabel: 'Tarjan のアルゴリズムのグラフ、各ノードと辺の状態は下の表にあります',
+    staticLabel: 'Tarjan のアルゴリズムの例のグラフ、JavaScript を有効にするとステップ実行できます',
+    mirrorNodes: 'ノードの状態',
+    mirrorEdges: '辺の分類',
+    columnNode: 'ノード',
+    columnDfnLow: 'dfn/low',
+    columnState: '状態',
+    columnEdge: '辺',
+    columnType: '種類',
+    stateUnvisited: '未訪問',
+    stateVisiting: '訪問中',
+    stateCurrent: '現在のノード',
+    stateVisited: '完了',
+    stateComponent: '{index} 番目の SCC',
+    edgeUnclassified: '未分類',
+    listSeparator: '、',
+    legendTitle: '辺の種類の凡例',
+    legendTree: '木辺 (Tree)',
+    legendBack: '後退辺 (Back)',
+    legendForward: '前進辺 (Forward)',
+    legendCross: '横断辺 (Cross)',
+    legendBridge: '橋 (Bridge)',
+    legendCutVertex: '関節点 (Cut vertex)',
+    legendNodeLabel: 'ノードのラベル：番号と dfn/low',
+    legendOnStack: 'Tarjan スタック上',
+    legendComponents: '同じ色のノードは同じ強連結成分',
+    palette: '配色',
+    schemeStandard: '標準',
+    schemeColorblind: '色覚多様性対応 (Okabe-Ito)',
+    customGraph: 'カスタムグラフ',
+    inputFormat: '入力形式',
+    oneIndexed: 'ノード番号は 1 から',
+    nodeCount: 'ノード数',
+    applyConfig: '適用',
+    formatEdges: '辺リスト',
+    formatEdgesHint: '1 行に 1 辺、形式：u v [w]',
+    formatHeader: '競プロ形式 (n m)',
+    formatHeaderHint: '1 行目は「n m」、続いて m 行の「u v [w]」',
+    formatAdjacency: '隣接リスト',
+    formatAdjacencyHint: '1 行に 1 ノード、形式：u: v1 v2 ...',
+    formatDot: 'Graphviz DOT',
+    formatDotHint: 'graph { 0 -- 1 [label=3]; } または digraph { 0 -> 1; }',
+    errorAtLine: '{line} 行目：{reason}',
+    errorFieldCount: '「u v」または「u v w」のはずが {count} 個の項目がある',
+    errorNodeInteger: 'ノード番号は 0 以上の整数でなければならない',
+    errorWeight: '重み「{weight}」が数値ではない',
+    errorNodeRange: 'ノード {node} が範囲 {min} ~ {max} の外にある',
+    errorNodeCount: 'ノード数が無効です。正の整数を入力してください',
+    errorTooManyNodes: 'ノードは最大 {max} 個ですが、入力には {count} 個ある',
+    errorHeaderLine: '1 行目は「n m」（ノード数 辺数）のはず',
+    errorTooManyEdges: 'ヘッダーで宣言された {expected} 本を超えている',
+    errorMissingHeader: '「n m」ヘッダーがありません',
+    errorTooFewEdges: 'ヘッダーは {expected} 本の辺を宣言していますが、{count} 本しか読めませんでした',
+    errorAdjacencyLine: '「u: v1 v2 ...」のはず',
+    errorNeighbor: '隣接ノード「{token}」が 0 以上の整数ではない',
+    errorNodeBelow: 'ノード {node} が {min} より小さい',
+    errorDotHeader: '「graph {」または「digraph {」で始まるはず',
+    errorAfterClose: '「}」の後に内容があってはならない',
+    errorDotOperator: '{kind} の辺は「{operator}」を使うこと',
+    errorDotStatement: '「{statement}」を解析できない。ノードは {min} 以上の整数であること',
+    errorDotMissingHeader: '「graph {」または「digraph {」がありません',
+    errorDotUnclosed: '閉じる「}」がありません',
+    errorNoEdges: '辺リストが空です。有効な辺が少なくとも 1 本必要です'
+  }
+}
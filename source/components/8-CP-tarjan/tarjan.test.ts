@@ -0,0 +1,273 @@
+import { describe, expect, it } from 'vitest'
+import { createRandom } from '../visualizer'
+import {
+  EDGE_TYPES,
+  EVENT_TYPES,
+  Event,
+  NeighborOrder,
+  TraversalOptions,
+  classifyEdges,
+  edgeId,
+  summarizeEvents
+} from './tarjan'
+
+// classifyEdges checked against brute-force oracles: removing an edge or a
+// node and testing connectivity for bridges and cut vertices, pairwise
+// reachability for SCCs, and ancestor checks on the reported DFS tree for
+// edge types. Random multigraphs come from a seeded generator, so a failure
+// always reproduces.
+
+type Graph = {
+  nodes: number[]
+  edges: Array<[number, number]>
+}
+
+const ORDERS: NeighborOrder[] = ['insertion', 'ascending', 'descending', 'random']
+
+// ============================================================================
+// Oracles
+// ============================================================================
+
+/**
+ * Nodes reachable from `start`, skipping one edge and one node
+ */
+function reachable(
+  { nodes, edges }: Graph,
+  start: number,
+  isDirected: boolean,
+  skipEdge: number | null = null,
+  skipNode: number | null = null
+): Set<number> {
+  const adj = new Map<number, number[]>(nodes.map(node => [node, []]))
+  edges.forEach(([u, v], index) => {
+    if (index === skipEdge || u === skipNode || v === skipNode) return
+    adj.get(u)!.push(v)
+    if (!isDirected) adj.get(v)!.push(u)
+  })
+
+  const seen = new Set<number>([start])
+  const queue = [start]
+  while (queue.length > 0) {
+    for (const v of adj.get(queue.shift()!)!) {
+      if (!seen.has(v)) {
+        seen.add(v)
+        queue.push(v)
+      }
+    }
+  }
+  return seen
+}
+
+/**
+ * An edge is a bridge if its endpoints fall apart once it is removed
+ */
+function bruteForceBridges(graph: Graph): string[] {
+  return graph.edges
+    .map((edge, index) => ({ edge, index }))
+    .filter(({ edge: [u, v], index }) => !reachable(graph, u, false, index).has(v))
+    .map(({ index }) => edgeId(index))
+}
+
+/**
+ * A node is a cut vertex if its neighbors fall apart once it is removed
+ */
+function bruteForceArticulationPoints(graph: Graph): number[] {
+  return graph.nodes.filter(node => {
+    const neighbors = new Set<number>()
+    for (const [u, v] of graph.edges) {
+      if (u === node && v !== node) neighbors.add(v)
+      if (v === node && u !== node) neighbors.add(u)
+    }
+    if (neighbors.size < 2) return false
+    const [first] = neighbors
+    const seen = reachable(graph, first, false, null, node)
+    return [...neighbors].some(neighbor => !seen.has(neighbor))
+  })
+}
+
+/**
+ * Two nodes share an SCC if each reaches the other
+ */
+function bruteForceComponents(graph: Graph): number[][] {
+  const reach = new Map(graph.nodes.map(node => [node, reachable(graph, node, true)]))
+  const assigned = new Set<number>()
+  const components: number[][] = []
+  for (const u of graph.nodes) {
+    if (assigned.has(u)) continue
+    const component = graph.nodes.filter(v => reach.get(u)!.has(v) && reach.get(v)!.has(u))
+    component.forEach(v => assigned.add(v))
+    components.push(component)
+  }
+  return components
+}
+
+function normalizeComponents(components: number[][]): string[] {
+  return components.map(component => [...component].sort((a, b) => a - b).join(',')).sort()
+}
+
+/**
+ * Checks the reported DFS forest and every edge type against it
+ */
+function checkEdgeTypes(graph: Graph, events: Event[], isDirected: boolean) {
+  const { edgeTypes } = summarizeEvents(events)
+  const parent = new Map<number, number | null>()
+  const dfn = new Map<number, number>()
+  for (const event of events) {
+    if (event.type === EVENT_TYPES.NODE && event.status === 'visiting') {
+      parent.set(Number(event.id), event.parent ?? null)
+      dfn.set(Number(event.id), event.dfn!)
+    }
+  }
+
+  // Every node is visited exactly once
+  expect([...parent.keys()].sort((a, b) => a - b)).toEqual(graph.nodes)
+
+  const isAncestor = (ancestor: number, node: number) => {
+    for (let current: number | null = node; current !== null; current = parent.get(current)!) {
+      if (current === ancestor) return true
+    }
+    return false
+  }
+
+  // Every edge is classified exactly once
+  const classified = events.filter(event => (Object.values(EDGE_TYPES) as string[]).includes(event.type))
+  expect(classified.map(event => event.id).sort()).toEqual(graph.edges.map((_, index) => edgeId(index)).sort())
+
+  for (const event of classified) {
+    const index = Number(event.id.slice(1))
+    const [u, v] = graph.edges[index]
+    const from = event.from!
+    const to = event.to!
+    // Reported endpoints are the edge's own, reversed at most for undirected graphs
+    expect(isDirected ? [from, to] : [from, to].sort()).toEqual(isDirected ? [u, v] : [u, v].sort())
+
+    switch (edgeTypes[event.id]) {
+      case EDGE_TYPES.TREE:
+        expect(parent.get(to)).toBe(from)
+        break
+      case EDGE_TYPES.BACK:
+        expect(isAncestor(to, from)).toBe(true)
+        break
+      case EDGE_TYPES.FORWARD:
+        expect(isDirected).toBe(true)
+        expect(from !== to && isAncestor(from, to)).toBe(true)
+        break
+      case EDGE_TYPES.CROSS:
+        expect(isDirected).toBe(true)
+        expect(isAncestor(from, to) || isAncestor(to, from)).toBe(false)
+        expect(dfn.get(to)!).toBeLessThan(dfn.get(from)!)
+        break
+    }
+  }
+}
+
+// ============================================================================
+// Random Graphs
+// ============================================================================
+
+/**
+ * Small multigraphs with self-loops, parallel edges and, being sparse,
+ * often several components
+ */
+function randomGraph(random: () => number): Graph {
+  const pick = (limit: number) => Math.floor(random() * limit)
+  const n = 1 + pick(9)
+  const edges: Array<[number, number]> = []
+  const m = pick(2 * n + 2)
+  while (edges.length < m) {
+    const roll = random()
+    if (roll < 0.1) {
+      const u = pick(n)
+      edges.push([u, u])
+    } else if (roll < 0.2 && edges.length > 0) {
+      const [u, v] = edges[pick(edges.length)]
+      edges.push(random() < 0.5 ? [u, v] : [v, u])
+    } else {
+      edges.push([pick(n), pick(n)])
+    }
+  }
+  return { nodes: Array.from({ length: n }, (_, i) => i), edges }
+}
+
+function randomTraversal(random: () => number, graph: Graph): TraversalOptions {
+  return {
+    root: Math.floor(random() * graph.nodes.length),
+    neighborOrder: ORDERS[Math.floor(random() * ORDERS.length)],
+    seed: Math.floor(random() * 1000)
+  }
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('classifyEdges', () => {
+  it('treats a parallel edge to the parent as a back edge, not a bridge', () => {
+    const graph: Graph = { nodes: [0, 1, 2], edges: [[0, 1], [1, 0], [1, 2]] }
+    const summary = summarizeEvents(classifyEdges(graph.nodes, graph.edges, false))
+    expect(summary.edgeTypes).toEqual({ e0: 'tree', e1: 'back', e2: 'tree' })
+    expect(summary.bridges).toEqual(['e2'])
+    expect(summary.articulationPoints).toEqual([1])
+  })
+
+  it('classifies a self-loop as a back edge that is never a bridge', () => {
+    for (const isDirected of [true, false]) {
+      const summary = summarizeEvents(classifyEdges([0, 1], [[0, 0], [0, 1]], isDirected))
+      expect(summary.edgeTypes.e0).toBe('back')
+      expect(summary.bridges).toEqual(isDirected ? [] : ['e1'])
+    }
+  })
+
+  it('handles a path of 50000 nodes without overflowing the stack', () => {
+    const n = 50000
+    const nodes = Array.from({ length: n }, (_, i) => i)
+    const edges = nodes.slice(1).map(v => [v - 1, v] as [number, number])
+    const summary = summarizeEvents(classifyEdges(nodes, edges, false))
+    expect(summary.bridges).toHaveLength(n - 1)
+    expect(summary.articulationPoints).toHaveLength(n - 2)
+  })
+
+  it('finds the bridges and cut vertices that removal finds', () => {
+    const random = createRandom(13)
+    for (let run = 0; run < 400; run++) {
+      const graph = randomGraph(random)
+      const events = classifyEdges(graph.nodes, graph.edges, false, false, randomTraversal(random, graph))
+      const summary = summarizeEvents(events)
+      expect(summary.bridges.sort()).toEqual(bruteForceBridges(graph).sort())
+      expect(summary.articulationPoints.sort((a, b) => a - b)).toEqual(bruteForceArticulationPoints(graph))
+      checkEdgeTypes(graph, events, false)
+    }
+  })
+
+  it('finds the SCCs that pairwise reachability finds', () => {
+    const random = createRandom(31)
+    for (let run = 0; run < 400; run++) {
+      const graph = randomGraph(random)
+      const events = classifyEdges(graph.nodes, graph.edges, true, true, randomTraversal(random, graph))
+      const summary = summarizeEvents(events)
+      expect(normalizeComponents(summary.components)).toEqual(normalizeComponents(bruteForceComponents(graph)))
+      expect(summary.bridges).toEqual([])
+      checkEdgeTypes(graph, events, true)
+    }
+  })
+
+  it('gives directed edge types that match the DFS tree without SCC tracking', () => {
+    const random = createRandom(47)
+    for (let run = 0; run < 400; run++) {
+      const graph = randomGraph(random)
+      const events = classifyEdges(graph.nodes, graph.edges, true, false, randomTraversal(random, graph))
+      expect(summarizeEvents(events).components).toEqual([])
+      checkEdgeTypes(graph, events, true)
+    }
+  })
+
+  it('starts at the chosen root', () => {
+    const random = createRandom(59)
+    for (let run = 0; run < 100; run++) {
+      const graph = randomGraph(random)
+      const traversal = randomTraversal(random, graph)
+      const [first] = classifyEdges(graph.nodes, graph.edges, run % 2 === 0, false, traversal)
+      expect(first.id).toBe(String(traversal.root))
+    }
+  })
+})
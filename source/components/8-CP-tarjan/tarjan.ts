@@ -0,0 +1,416 @@
+import { VisualizerEvent, createRandom } from '../visualizer'
+
+// Tarjan's DFS as pure functions: no DOM, React or Cytoscape, so the event
+// stream can be computed and checked headlessly.
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EventType = typeof EDGE_TYPES[keyof typeof EDGE_TYPES] | typeof EVENT_TYPES[keyof typeof EVENT_TYPES]
+
+export type Event = VisualizerEvent<EventType> & {
+  status?: string
+  parent?: number | null
+  dfn?: number
+  low?: number
+  via?: string
+  component?: number
+  members?: number[]
+  from?: number
+  to?: number
+}
+
+// Neighbor v of u reached through edges[edge]
+type Arc = {
+  to: number
+  edge: number
+}
+
+// One dfs(u, fa) call on the explicit stack
+type Frame = {
+  u: number
+  fa: number | null
+  parentEdge: number | null
+  // Index of the next arc of adj[u] to look at
+  next: number
+  child: number
+  isArticulation: boolean
+  // Tree edge whose subtree is being explored, finished once the child's frame is popped
+  pending: Arc | null
+}
+
+export type TarjanSummary = {
+  edgeTypes: Record<string, string>
+  bridges: string[]
+  articulationPoints: number[]
+  components: number[][]
+}
+
+export type NeighborOrder = 'insertion' | 'ascending' | 'descending' | 'random'
+
+export type TraversalOptions = {
+  root: number
+  neighborOrder: NeighborOrder
+  seed: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const EDGE_TYPES = {
+  TREE: 'tree',
+  BACK: 'back',
+  FORWARD: 'forward',
+  CROSS: 'cross'
+} as const
+
+export const EVENT_TYPES = {
+  NODE: 'node',
+  LOW: 'low',
+  BRIDGE: 'bridge',
+  ARTICULATION: 'articulation',
+  PUSH: 'push',
+  POP: 'pop',
+  SCC: 'scc'
+} as const
+
+/**
+ * C++ listing of the algorithm run by classifyEdges. Keyed lines are the ones
+ * events point at; the key is resolved to a 1-based line number in CODE_LINE.
+ */
+export const SOURCE_CODE: Array<[string, string]> = [
+  ['', 'void dfs(int u, int fa, int pe) {  // pe: 走到 u 的那條邊'],
+  ['enter', '    dfn[u] = low[u] = ++timer;'],
+  ['', '    state[u] = VISITING;'],
+  ['push', '    stk.push(u), inStk[u] = true;  // SCC 模式'],
+  ['', '    int child = 0;'],
+  ['', '    for (auto [v, id] : adj[u]) {'],
+  ['', '        if (!directed && id == pe) continue;  // 只跳過來時的那條邊'],
+  ['tree', '        if (state[v] == UNVISITED) {  // 樹邊'],
+  ['', '            child++;'],
+  ['', '            dfs(v, u, id);'],
+  ['lowTree', '            low[u] = min(low[u], low[v]);'],
+  ['bridge', '            if (dfn[u] < low[v]) bridge(u, v);'],
+  ['articulation', '            if (fa != -1 && low[v] >= dfn[u]) cut[u] = true;'],
+  ['back', '        } else if (state[v] == VISITING) {  // 回邊'],
+  ['lowBack', '            low[u] = min(low[u], dfn[v]);'],
+  ['forward', '        } else if (dfn[v] > dfn[u]) {  // 前向邊'],
+  ['cross', '        } else {  // 橫跨邊'],
+  ['lowCross', '            if (inStk[v]) low[u] = min(low[u], dfn[v]);'],
+  ['', '        }'],
+  ['', '    }'],
+  ['rootArticulation', '    if (fa == -1 && child >= 2) cut[u] = true;'],
+  ['', '    if (low[u] == dfn[u]) {  // SCC 模式'],
+  ['', '        vector<int> comp;'],
+  ['', '        int w;'],
+  ['', '        do {'],
+  ['pop', '            w = stk.top(), stk.pop(), inStk[w] = false;'],
+  ['', '            comp.push_back(w);'],
+  ['', '        } while (w != u);'],
+  ['scc', '        sccs.push_back(comp);'],
+  ['', '    }'],
+  ['exit', '    state[u] = VISITED;'],
+  ['', '}']
+]
+
+export const CODE_LINE: Record<string, number> = Object.fromEntries(
+  SOURCE_CODE
+    .map(([key], index) => [key, index + 1] as [string, number])
+    .filter(([key]) => key !== '')
+)
+
+export const DEFAULT_TRAVERSAL: TraversalOptions = {
+  root: 0,
+  neighborOrder: 'insertion',
+  seed: 1
+}
+
+/**
+ * Cytoscape ID of edges[index]; endpoints alone would clash on parallel edges
+ */
+export function edgeId(index: number): string {
+  return `e${index}`
+}
+
+const NODE_STATE = {
+  UNVISITED: 0,
+  VISITING: 1,
+  VISITED: 2
+} as const
+
+// ============================================================================
+// Traversal Order
+// ============================================================================
+
+/**
+ * Sorts or shuffles every adjacency list in place
+ */
+function orderNeighbors(adj: Record<number, Arc[]>, nodes: number[], traversal: TraversalOptions) {
+  const random = createRandom(traversal.seed)
+  for (const node of nodes) {
+    const neighbors = adj[node]
+    if (traversal.neighborOrder === 'ascending') {
+      neighbors.sort((a, b) => a.to - b.to)
+    } else if (traversal.neighborOrder === 'descending') {
+      neighbors.sort((a, b) => b.to - a.to)
+    } else if (traversal.neighborOrder === 'random') {
+      // Fisher-Yates shuffle
+      for (let i = neighbors.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1))
+        const swap = neighbors[i]
+        neighbors[i] = neighbors[j]
+        neighbors[j] = swap
+      }
+    }
+  }
+}
+
+// ============================================================================
+// DFS Algorithm - Tarjan's Edge Classification, Bridges, Cut Vertices and SCC
+// ============================================================================
+
+/**
+ * Runs Tarjan's DFS and records every step as an event: node enter/exit,
+ * edge classification, low[u] updates and, for undirected graphs, the
+ * bridges and articulation points found along the way. With `withScc` on a
+ * directed graph it also records pushes and pops of the Tarjan stack and
+ * every strongly connected component as it is popped.
+ *
+ * The DFS starts at `traversal.root`, then continues from the remaining
+ * unvisited nodes in array order, visiting neighbors in `traversal.neighborOrder`.
+ * It runs on an explicit stack of frames rather than recursion, so a path of
+ * tens of thousands of nodes is fine; the events are the same as the
+ * recursive version in SOURCE_CODE would produce.
+ */
+export function classifyEdges(
+  nodes: number[],
+  edges: Array<[number, number]>,
+  isDirected: boolean = true,
+  withScc: boolean = false,
+  traversal: TraversalOptions = DEFAULT_TRAVERSAL
+): Event[] {
+  const trackScc = withScc && isDirected
+  let time = 0
+  const dfn: Record<number, number> = {} // discovery time for each node
+  const low: Record<number, number> = {} // earliest dfn reachable with at most one back edge
+  const state: Record<number, number> = {} // current state of each node
+  const adj: Record<number, Arc[]> = {} // adjacency list representation
+  const events: Event[] = [] // sequence of edge classification events
+  const stack: number[] = [] // Tarjan stack of nodes whose SCC is still open
+  const onStack: Record<number, boolean> = {}
+  let componentCount = 0
+  // Initialize data structures
+  nodes.forEach(v => {
+    adj[v] = []
+    state[v] = NODE_STATE.UNVISITED
+  })
+  
+  // Build adjacency list
+  edges.forEach(([u, v], edge) => {
+    adj[u].push({ to: v, edge })
+
+    // For undirected graphs, add reverse edge; a self-loop is only walked once
+    if (!isDirected && u !== v) {
+      adj[v].push({ to: u, edge })
+    }
+  })
+  orderNeighbors(adj, nodes, traversal)
+
+  const frames: Frame[] = [] // explicit call stack, so deep graphs cannot overflow the JS stack
+
+  /**
+   * Start of dfs(u, fa): number u and open its frame
+   */
+  function enter(u: number, fa: number | null, parentEdge: number | null) {
+    dfn[u] = low[u] = ++time
+    state[u] = NODE_STATE.VISITING
+    events.push({
+      id: String(u), type: EVENT_TYPES.NODE, status: 'visiting', parent: fa, dfn: dfn[u], low: low[u], line: CODE_LINE.enter,
+      message: fa === null
+        ? { key: 'visitRoot', params: { u, dfn: dfn[u] } }
+        : { key: 'visit', params: { u, fa, dfn: dfn[u] } }
+    })
+    if (trackScc) {
+      stack.push(u)
+      onStack[u] = true
+      events.push({ id: String(u), type: EVENT_TYPES.PUSH, line: CODE_LINE.push, message: { key: 'push', params: { u } } })
+    }
+    frames.push({ u, fa, parentEdge, next: 0, child: 0, isArticulation: false, pending: null })
+  }
+
+  /**
+   * Looks at one neighbor of u; a tree edge opens the child's frame
+   */
+  function visitArc(frame: Frame, { to: v, edge }: Arc) {
+    const { u } = frame
+    // The reverse arc shares its edge's ID
+    const id = edgeId(edge)
+    if (edge === frame.parentEdge && !isDirected) {
+      // Ignore only the edge we came down by; a parallel edge to the parent is a back edge
+      return
+    }
+    if (state[v] === NODE_STATE.UNVISITED) {
+      // Tree edge: leads to undiscovered node
+      events.push({
+        id, type: EDGE_TYPES.TREE, from: u, to: v, line: CODE_LINE.tree,
+        message: { key: EDGE_TYPES.TREE, params: { u, v } }
+      })
+      frame.child++
+      frame.pending = { to: v, edge }
+      enter(v, u, edge)
+    } else if (state[v] === NODE_STATE.VISITING) {
+      // Back edge: leads to ancestor in DFS tree
+      events.push({
+        id, type: EDGE_TYPES.BACK, from: u, to: v, line: CODE_LINE.back,
+        message: { key: EDGE_TYPES.BACK, params: { u, v } }
+      })
+      // low[u] = min(low[u], dfn[v])
+      const before = low[u]
+      low[u] = Math.min(low[u], dfn[v])
+      events.push({
+        id: String(u), type: EVENT_TYPES.LOW, dfn: dfn[u], low: low[u], via: EDGE_TYPES.BACK, from: u, to: v, line: CODE_LINE.lowBack,
+        message: { key: 'lowBack', params: { u, v, before, dfnV: dfn[v], low: low[u] } }
+      })
+    } else if (isDirected) {
+      if (dfn[v] > dfn[u]) {
+        events.push({
+          id, type: EDGE_TYPES.FORWARD, from: u, to: v, line: CODE_LINE.forward,
+          message: { key: EDGE_TYPES.FORWARD, params: { u, v, dfnU: dfn[u], dfnV: dfn[v] } }
+        })
+      } else {
+        events.push({
+          id, type: EDGE_TYPES.CROSS, from: u, to: v, line: CODE_LINE.cross,
+          message: { key: EDGE_TYPES.CROSS, params: { u, v, dfnU: dfn[u], dfnV: dfn[v] } }
+        })
+        if (trackScc && onStack[v]) {
+          // v's component is still open, so u can reach back into it
+          const before = low[u]
+          low[u] = Math.min(low[u], dfn[v])
+          events.push({
+            id: String(u), type: EVENT_TYPES.LOW, dfn: dfn[u], low: low[u], via: EDGE_TYPES.CROSS, from: u, to: v, line: CODE_LINE.lowCross,
+            message: { key: 'lowCross', params: { u, v, before, dfnV: dfn[v], low: low[u] } }
+          })
+        }
+      }
+    }
+  }
+
+  /**
+   * Back in u after dfs(v) returned through the tree edge u -> v
+   */
+  function returnFromChild(frame: Frame, { to: v, edge }: Arc) {
+    const { u, fa } = frame
+    const id = edgeId(edge)
+    // low[u] = min(low[u], low[v])
+    const before = low[u]
+    low[u] = Math.min(low[u], low[v])
+    events.push({
+      id: String(u), type: EVENT_TYPES.LOW, dfn: dfn[u], low: low[u], via: EDGE_TYPES.TREE, from: u, to: v, line: CODE_LINE.lowTree,
+      message: { key: 'lowTree', params: { u, v, before, lowV: low[v], low: low[u] } }
+    })
+
+    if (!isDirected) {
+      if (dfn[u] < low[v]) {
+        // v cannot climb back above u, so removing u-v disconnects it
+        events.push({
+          id, type: EVENT_TYPES.BRIDGE, from: u, to: v, line: CODE_LINE.bridge,
+          message: { key: EVENT_TYPES.BRIDGE, params: { u, v, dfnU: dfn[u], lowV: low[v] } }
+        })
+      }
+      if (fa !== null && low[v] >= dfn[u] && !frame.isArticulation) {
+        frame.isArticulation = true
+        events.push({
+          id: String(u), type: EVENT_TYPES.ARTICULATION, from: u, to: v, line: CODE_LINE.articulation,
+          message: { key: EVENT_TYPES.ARTICULATION, params: { u, v, dfnU: dfn[u], lowV: low[v] } }
+        })
+      }
+    }
+  }
+
+  /**
+   * End of dfs(u, fa) once every neighbor has been looked at
+   */
+  function finish({ u, fa, child }: Frame) {
+    // u is the root of an SCC: pop the stack down to u
+    if (trackScc && low[u] === dfn[u]) {
+      const members: number[] = []
+      const component = componentCount++
+      let w: number
+      do {
+        w = stack.pop() as number
+        onStack[w] = false
+        members.push(w)
+        events.push({
+          id: String(w), type: EVENT_TYPES.POP, component, line: CODE_LINE.pop,
+          message: { key: EVENT_TYPES.POP, params: { w, u, dfn: dfn[u] } }
+        })
+      } while (w !== u)
+      events.push({
+        id: String(u), type: EVENT_TYPES.SCC, component, members, line: CODE_LINE.scc,
+        message: { key: EVENT_TYPES.SCC, params: { u, members: members.join(', ') } }
+      })
+    }
+
+    // The root is a cut vertex only if it has two or more DFS subtrees
+    if (!isDirected && fa === null && child >= 2) {
+      events.push({
+        id: String(u), type: EVENT_TYPES.ARTICULATION, line: CODE_LINE.rootArticulation,
+        message: { key: 'rootArticulation', params: { u, child } }
+      })
+    }
+
+    state[u] = NODE_STATE.VISITED
+    events.push({
+      id: String(u), type: EVENT_TYPES.NODE, status: 'visited', parent: fa, line: CODE_LINE.exit,
+      message: fa === null
+        ? { key: 'finishRoot', params: { u } }
+        : { key: 'finish', params: { u, fa } }
+    })
+  }
+
+  // Start from the chosen root, then process all unvisited nodes to handle disconnected components
+  const starts = nodes.includes(traversal.root) ? [traversal.root, ...nodes] : nodes
+  for (const node of starts) {
+    if (state[node] !== NODE_STATE.UNVISITED) continue
+
+    enter(node, null, null)
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]
+      if (frame.pending) {
+        returnFromChild(frame, frame.pending)
+        frame.pending = null
+      }
+      if (frame.next < adj[frame.u].length) {
+        visitArc(frame, adj[frame.u][frame.next++])
+      } else {
+        finish(frame)
+        frames.pop()
+      }
+    }
+  }
+
+  return events
+}
+
+/**
+ * Final results of an event stream: the type of every edge and the
+ * bridges, cut vertices and SCCs it reported
+ */
+export function summarizeEvents(events: Event[]): TarjanSummary {
+  const summary: TarjanSummary = { edgeTypes: {}, bridges: [], articulationPoints: [], components: [] }
+  const edgeTypes: string[] = Object.values(EDGE_TYPES)
+  for (const event of events) {
+    if (edgeTypes.includes(event.type)) {
+      summary.edgeTypes[event.id] = event.type
+    } else if (event.type === EVENT_TYPES.BRIDGE) {
+      summary.bridges.push(event.id)
+    } else if (event.type === EVENT_TYPES.ARTICULATION) {
+      summary.articulationPoints.push(Number(event.id))
+    } else if (event.type === EVENT_TYPES.SCC) {
+      summary.components.push(event.members as number[])
+    }
+  }
+  return summary
+}
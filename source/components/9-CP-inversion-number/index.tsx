@@ -0,0 +1,631 @@
+import React, { useEffect, useId, useMemo, useRef, useState, CSSProperties } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { Core, ElementDefinition, LayoutOptions, StylesheetStyle } from 'cytoscape'
+import {
+  BASE_PALETTES,
+  BORDER,
+  BasePalette,
+  CodePanel,
+  ControlsBar,
+  CytoscapeCanvas,
+  DEFAULT_LOCALE,
+  FocusRing,
+  Locale,
+  Message,
+  Narration,
+  STYLES as BASE_STYLES,
+  ScreenReaderTable,
+  ThemeMode,
+  ViewControls,
+  VisualState,
+  createBaseStylesheet,
+  createClassTracker,
+  createEdgeHighlight,
+  createTranslator,
+  formatMessage,
+  removeStaticContent,
+  renderGraphSvg,
+  useFullscreen,
+  useLocale,
+  useStepper,
+  useThemeMode,
+  withPageLifecycle
+} from '../visualizer'
+import { EVENT_TYPES, Event, SOURCE_CODE, buildSegments, mergeSortInversions } from './inversion'
+import { MESSAGES, STRINGS, StringKey } from './strings'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type ColorPalette = BasePalette & {
+  call: string
+  left: string
+  right: string
+  added: string
+}
+
+type MergeFrame = {
+  lo: number
+  mid: number
+  hi: number
+  i: number
+  j: number
+  merged: number[]
+  added: number | null
+}
+
+type RoundRow = {
+  round: number
+  merged: number[]
+  left: number[]
+  right: number[]
+  added: number
+}
+
+type MergeVisualState = VisualState & {
+  array: number[]
+  merge: MergeFrame | null
+  count: number
+  callStack: Array<{ lo: number, hi: number }>
+  rounds: RoundRow[]
+}
+
+type ParseResult = {
+  values: number[] | null
+  // Keyed into STRINGS so they can be shown in any language
+  errors: Message[]
+}
+
+type Translate = (key: StringKey, params?: Message['params']) => string
+
+type ArrayCellsProps = {
+  values: number[]
+  // Index of the first cell, shown under each cell
+  offset: number
+  pointer?: { index: number, label: string } | null
+  // Cells before this index are already taken
+  takenBefore?: number
+  color: string
+}
+
+type MergePanelProps = {
+  t: Translate
+  visualState: MergeVisualState
+  palette: ColorPalette
+}
+
+type RoundsTableProps = {
+  t: Translate
+  rounds: RoundRow[]
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_ARRAY = [1, 2, 5, 6, 10, 3, 4, 7, 8, 9]
+
+const MAX_LENGTH = 32
+
+const COLORS = {
+  call: '#22c55e',
+  left: '#3b82f6',
+  right: '#a855f7',
+  added: '#ef4444'
+}
+
+const STYLES: Record<string, CSSProperties> = {
+  ...BASE_STYLES,
+  panel: {
+    marginTop: 8,
+    padding: 12,
+    border: BORDER,
+    borderRadius: 4,
+    fontSize: 14
+  },
+  panelRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    flexWrap: 'wrap' as const,
+    marginBottom: 8
+  },
+  panelLabel: {
+    width: 120,
+    flexShrink: 0
+  },
+  cells: {
+    display: 'flex',
+    gap: '4px',
+    flexWrap: 'wrap' as const
+  },
+  cell: {
+    minWidth: 32,
+    textAlign: 'center' as const,
+    fontFamily: 'monospace'
+  },
+  cellValue: {
+    padding: '4px 6px',
+    border: '2px solid',
+    borderRadius: 4
+  },
+  cellIndex: {
+    fontSize: 11,
+    opacity: 0.6
+  },
+  counter: {
+    fontWeight: 'bold',
+    fontSize: 16
+  },
+  table: {
+    marginTop: 12,
+    width: '100%'
+  }
+}
+
+// ============================================================================
+// Array Input Parsing
+// ============================================================================
+
+/**
+ * Reads whitespace- or comma-separated integers
+ */
+function parseArrayInput(text: string): ParseResult {
+  const tokens = text.split(/[\s,]+/).filter(token => token !== '')
+  const errors: Message[] = []
+  const values: number[] = []
+
+  tokens.forEach((token, index) => {
+    const value = Number(token)
+    if (!/^-?\d+$/.test(token) || !Number.isSafeInteger(value)) {
+      errors.push({ key: 'errorNotInteger', params: { index: index + 1, token } })
+    } else {
+      values.push(value)
+    }
+  })
+  if (tokens.length === 0) {
+    errors.push({ key: 'errorEmpty', params: {} })
+  } else if (tokens.length > MAX_LENGTH) {
+    errors.push({ key: 'errorTooLong', params: { max: MAX_LENGTH, count: tokens.length } })
+  }
+
+  return errors.length > 0 ? { values: null, errors } : { values, errors }
+}
+
+// ============================================================================
+// Cytoscape Configuration
+// ============================================================================
+
+/**
+ * One node per merge_sort call, each linked to the call that made it
+ */
+function buildElements(values: number[]): ElementDefinition[] {
+  const segments = buildSegments(values.length)
+  const elements: ElementDefinition[] = []
+  for (const [id, { lo, hi, parent }] of Object.entries(segments)) {
+    const label = values.slice(lo, hi + 1).join(' ')
+    // Labels are permuted while sorting but keep their length
+    elements.push({ data: { id, label, width: Math.max(28, label.length * 9 + 16) } })
+    if (parent !== null) {
+      // Blank rather than missing, or the shared edge label mapping warns
+      elements.push({ data: { id: `call-${id}`, source: parent, target: id, label: '' } })
+    }
+  }
+  return elements
+}
+
+function buildLayout(length: number): LayoutOptions {
+  return { name: 'breadthfirst', directed: true, roots: [`0-${length - 1}`], spacingFactor: 0.9 }
+}
+
+function createPalette(mode: ThemeMode): ColorPalette {
+  return { ...BASE_PALETTES[mode], ...COLORS }
+}
+
+function createStylesheet(palette: ColorPalette): StylesheetStyle[] {
+  return [
+    ...createBaseStylesheet(palette, true),
+    {
+      // Segments show their values inside a box
+      selector: 'node',
+      style: {
+        'shape': 'round-rectangle' as const,
+        'width': 'data(width)',
+        'height': 28,
+        'font-size': 14,
+        'color': palette.label,
+        'text-valign': 'center' as const
+      }
+    },
+    createEdgeHighlight('.call', palette.call, true)
+  ]
+}
+
+// ============================================================================
+// Array Cells Component
+// ============================================================================
+
+function ArrayCells({ values, offset, pointer = null, takenBefore = 0, color }: ArrayCellsProps) {
+  return (
+    <div style={STYLES.cells}>
+      {values.map((value, index) => (
+        <div key={index} style={{ ...STYLES.cell, opacity: offset + index < takenBefore ? 0.35 : 1 } as CSSProperties}>
+          <div
+            style={{
+              ...STYLES.cellValue,
+              borderColor: color,
+              backgroundColor: pointer && pointer.index === offset + index ? color : 'transparent',
+              color: pointer && pointer.index === offset + index ? '#ffffff' : undefined
+            } as CSSProperties}
+          >
+            {value}
+          </div>
+          <div style={STYLES.cellIndex}>
+            {pointer && pointer.index === offset + index ? `${pointer.label}=${offset + index}` : offset + index}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// ============================================================================
+// Merge Panel Component
+// ============================================================================
+
+function MergePanel({ t, visualState, palette }: MergePanelProps) {
+  const { array, merge, count, callStack } = visualState
+  const active = callStack[callStack.length - 1]
+
+  return (
+    <div style={STYLES.panel}>
+      {merge ? (
+        <>
+          <div style={STYLES.panelRow}>
+            <span style={STYLES.panelLabel}>{t('leftHalf', { lo: merge.lo, hi: merge.mid })}</span>
+            <ArrayCells
+              values={array.slice(merge.lo, merge.mid + 1)}
+              offset={merge.lo}
+              pointer={merge.i <= merge.mid ? { index: merge.i, label: 'i' } : null}
+              takenBefore={merge.i}
+              color={palette.left}
+            />
+          </div>
+          <div style={STYLES.panelRow}>
+            <span style={STYLES.panelLabel}>{t('rightHalf', { lo: merge.mid + 1, hi: merge.hi })}</span>
+            <ArrayCells
+              values={array.slice(merge.mid + 1, merge.hi + 1)}
+              offset={merge.mid + 1}
+              pointer={merge.j <= merge.hi ? { index: merge.j, label: 'j' } : null}
+              takenBefore={merge.j}
+              color={palette.right}
+            />
+          </div>
+          <div style={STYLES.panelRow}>
+            <span style={STYLES.panelLabel}>tmp</span>
+            <ArrayCells values={merge.merged} offset={merge.lo} color={palette.nodeVisited} />
+          </div>
+        </>
+      ) : (
+        <div style={STYLES.panelRow}>
+          <span style={STYLES.panelLabel}>a</span>
+          <ArrayCells
+            values={array}
+            offset={0}
+            color={palette.nodeVisited}
+          />
+          {active && <span>{t('processing', { lo: active.lo, hi: active.hi })}</span>}
+        </div>
+      )}
+      <div style={STYLES.counter}>
+        {t('inversions', { count })}
+        {merge && merge.added !== null && merge.added > 0 && (
+          <span style={{ color: palette.added, marginLeft: 8 } as CSSProperties}>+{merge.added}（mid - i + 1）</span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// Rounds Table Component
+// ============================================================================
+
+function RoundsTable({ t, rounds }: RoundsTableProps) {
+  return (
+    <table style={STYLES.table}>
+      <thead>
+        <tr>
+          <th>{t('round')}</th>
+          <th>{t('merged')}</th>
+          <th>{t('oldLeft')}</th>
+          <th>{t('oldRight')}</th>
+          <th>{t('added')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rounds.map(row => (
+          <tr key={row.round}>
+            <td>{row.round}</td>
+            <td>{row.merged.length > 0 && <code>{row.merged.join(' ')}</code>}</td>
+            <td>{row.left.length > 0 && <code>{row.left.join(' ')}</code>}</td>
+            <td>{row.right.length > 0 && <code>{row.right.join(' ')}</code>}</td>
+            <td>{row.added > 0 ? `+${row.added}` : ''}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Table rows for the merge started by events[start], up to but excluding events[end]
+ */
+function collectRounds(events: Event[], start: number, end: number): RoundRow[] {
+  const { left = [], right = [] } = events[start]
+  const rows: RoundRow[] = [{ round: 0, merged: [], left, right, added: 0 }]
+  let i = 0
+  let j = 0
+  const merged: number[] = []
+
+  for (const event of events.slice(start + 1, end)) {
+    if (event.type !== EVENT_TYPES.TAKE) break
+    merged.push(event.value as number)
+    if (event.side === 'left') i++
+    else j++
+    rows.push({ round: rows.length, merged: [...merged], left: left.slice(i), right: right.slice(j), added: event.added ?? 0 })
+  }
+  return rows
+}
+
+/**
+ * Replays the first `step` events: the array contents, the merge in
+ * progress with its pointers, the inversion count and the rounds table.
+ * Before any merge has started, the table previews the final merge.
+ */
+function deriveVisualState(events: Event[], step: number, values: number[]): MergeVisualState {
+  const classes = createClassTracker()
+  const array = [...values]
+  const callStack: Array<{ lo: number, hi: number }> = []
+  let merge: MergeFrame | null = null
+  let mergeStart: number | null = null
+  let count = 0
+  let current: string | null = null
+
+  for (const [index, event] of events.slice(0, step).entries()) {
+    if (event.type === EVENT_TYPES.SPLIT || event.type === EVENT_TYPES.BASE) {
+      classes.add(`call-${event.id}`, 'call')
+      if (event.type === EVENT_TYPES.SPLIT) {
+        classes.add(event.id, 'visiting')
+        callStack.push({ lo: event.lo, hi: event.hi })
+      } else {
+        classes.add(event.id, 'visited')
+      }
+      current = event.id
+    } else if (event.type === EVENT_TYPES.MERGE) {
+      merge = { lo: event.lo, mid: event.mid as number, hi: event.hi, i: event.lo, j: (event.mid as number) + 1, merged: [], added: null }
+      mergeStart = index
+      current = event.id
+    } else if (event.type === EVENT_TYPES.TAKE && merge) {
+      merge.merged.push(event.value as number)
+      if (event.side === 'left') merge.i++
+      else merge.j++
+      merge.added = event.added ?? null
+      count = event.total as number
+    } else if (event.type === EVENT_TYPES.MERGED) {
+      array.splice(event.lo, (event.values as number[]).length, ...(event.values as number[]))
+      merge = null
+      callStack.pop()
+      classes.remove(event.id, 'visiting')
+      classes.add(event.id, 'visited')
+      const parent = callStack[callStack.length - 1]
+      current = parent ? `${parent.lo}-${parent.hi}` : null
+    }
+  }
+
+  if (current !== null) {
+    classes.add(current, 'current')
+  }
+
+  const labels: Record<string, string> = {}
+  for (const [id, { lo, hi }] of Object.entries(buildSegments(values.length))) {
+    labels[id] = array.slice(lo, hi + 1).join(' ')
+  }
+
+  let rounds: RoundRow[] = []
+  if (mergeStart !== null) {
+    rounds = collectRounds(events, mergeStart, step)
+  } else {
+    const lastMerge = events.map(event => event.type).lastIndexOf(EVENT_TYPES.MERGE)
+    if (lastMerge >= 0) rounds = collectRounds(events, lastMerge, events.length)
+  }
+
+  return { classes: classes.toLists(), labels, array, merge, count, callStack, rounds }
+}
+
+/**
+ * One row per merge_sort call for the screen reader mirror of the recursion tree
+ */
+function describeSegments(values: number[], visualState: MergeVisualState, t: Translate) {
+  return Object.keys(buildSegments(values.length)).map(id => {
+    const classes = visualState.classes[id] ?? []
+    const state = classes.includes('current') ? t('stateCurrent')
+      : classes.includes('visited') ? t('stateVisited')
+        : classes.includes('visiting') ? t('stateVisiting')
+          : t('stateUnvisited')
+    const [lo, hi] = id.split('-')
+    return { key: id, cells: [`a[${lo}..${hi}]`, visualState.labels[id], state] }
+  })
+}
+
+// ============================================================================
+// Static Rendering
+// ============================================================================
+
+/**
+ * The recursion tree of the default array, which the build inlines as an SVG
+ */
+export function renderStaticGraph(): string {
+  return renderGraphSvg({
+    elements: buildElements(DEFAULT_ARRAY),
+    stylesheet: createStylesheet(createPalette('light')),
+    layout: buildLayout(DEFAULT_ARRAY.length),
+    height: 300,
+    title: STRINGS[DEFAULT_LOCALE].staticLabel
+  })
+}
+
+/**
+ * The rounds of the default array's last merge, which the build inlines after
+ * the component for the prose that refers to them
+ */
+export function renderStaticContent(): string {
+  const { rounds } = deriveVisualState(mergeSortInversions(DEFAULT_ARRAY), 0, DEFAULT_ARRAY)
+  return renderToStaticMarkup(<RoundsTable t={createTranslator(STRINGS[DEFAULT_LOCALE])} rounds={rounds} />)
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+type InversionNumberVisualizationProps = {
+  // Defaults to the language of the surrounding page
+  locale?: Locale
+}
+
+function InversionNumberVisualization({ locale: localeProp }: InversionNumberVisualizationProps) {
+  const rootRef = useRef<HTMLDivElement>(null)
+  const fullscreen = useFullscreen(rootRef)
+  const inputId = useId()
+  const cyRef = useRef<Core | null>(null)
+  const locale = useLocale(rootRef, localeProp)
+  const t: Translate = createTranslator(STRINGS[locale])
+  const [values, setValues] = useState<number[]>(DEFAULT_ARRAY)
+  const [arrayInput, setArrayInput] = useState<string>(DEFAULT_ARRAY.join(' '))
+  const [inputErrors, setInputErrors] = useState<Message[]>([])
+  const themeMode = useThemeMode()
+  const palette = useMemo(() => createPalette(themeMode), [themeMode])
+
+  const events = useMemo(() => mergeSortInversions(values), [values])
+  const stepper = useStepper(events.length)
+  const { step } = stepper
+
+  const visualState = useMemo(
+    () => deriveVisualState(events, step, values),
+    [events, step, values]
+  )
+
+  const elements = useMemo(() => buildElements(values), [values])
+  const stylesheet = useMemo(() => createStylesheet(palette), [palette])
+  const layout = useMemo(() => buildLayout(values.length), [values])
+
+  const handleApplyArray = () => {
+    const { values: parsed, errors } = parseArrayInput(arrayInput)
+    if (!parsed) {
+      setInputErrors(errors)
+      return
+    }
+
+    setInputErrors([])
+    setValues(parsed)
+    stepper.reset()
+  }
+
+  // The live rounds table replaces the build's copy
+  useEffect(() => {
+    if (rootRef.current) removeStaticContent(rootRef.current)
+  }, [])
+
+  const activeLine = step > 0 ? events[step - 1].line ?? null : null
+  const { callStack } = visualState
+
+  return (
+    <div
+      ref={rootRef}
+      data-visualizer=""
+      tabIndex={0}
+      aria-keyshortcuts="ArrowLeft ArrowRight Space Home End"
+      onKeyDown={stepper.handleKeyDown}
+      style={fullscreen.isFullscreen ? STYLES.fullscreen : undefined}
+    >
+      <FocusRing />
+      <CytoscapeCanvas
+        cyRef={cyRef}
+        elements={elements}
+        stylesheet={stylesheet}
+        layout={layout}
+        visualState={visualState}
+        ariaLabel={t('canvasLabel')}
+        style={(fullscreen.isFullscreen ? STYLES.fullscreenCanvas : { height: 'clamp(240px, 50vh, 300px)' }) as CSSProperties}
+      />
+      <ScreenReaderTable
+        caption={t('mirrorSegments')}
+        columns={[t('columnSegment'), t('columnValues'), t('columnState')]}
+        rows={describeSegments(values, visualState, t)}
+      />
+      <MergePanel t={t} visualState={visualState} palette={palette} />
+      <Narration
+        events={events}
+        step={step}
+        onSeek={stepper.seek}
+        messages={MESSAGES[locale]}
+        placeholder={t('placeholder')}
+      />
+      <ControlsBar stepper={stepper} locale={locale}>
+        <ViewControls cyRef={cyRef} fullscreen={fullscreen} locale={locale} />
+      </ControlsBar>
+      <CodePanel lines={SOURCE_CODE.map(([, text]) => text)} activeLine={activeLine}>
+        <div style={STYLES.callStack}>
+          <div style={STYLES.legendTitle}>{t('callStack')}</div>
+          {callStack.length === 0 && <span>{t('empty')}</span>}
+          {callStack
+            .map((frame, index) => (
+              <div
+                key={index}
+                style={(index === callStack.length - 1 ? { ...STYLES.frame, ...STYLES.frameActive } : STYLES.frame) as CSSProperties}
+              >
+                merge_sort({frame.lo}, {frame.hi})
+              </div>
+            ))
+            .reverse()}
+        </div>
+      </CodePanel>
+      <RoundsTable t={t} rounds={visualState.rounds} />
+      <div style={{ marginTop: 12, width: '100%' } as CSSProperties}>
+        <label htmlFor={inputId} style={{ display: 'block', fontWeight: 'bold', marginBottom: 8 } as CSSProperties}>
+          {t('customArray')}
+        </label>
+        <div id={`${inputId}-hint`} style={{ marginBottom: 4 } as CSSProperties}>{t('inputHint', { max: MAX_LENGTH })}</div>
+        <input
+          id={inputId}
+          type="text"
+          aria-describedby={`${inputId}-hint`}
+          aria-invalid={inputErrors.length > 0}
+          value={arrayInput}
+          onChange={e => setArrayInput(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') handleApplyArray()
+          }}
+          style={{ width: '100%', fontFamily: 'monospace' } as CSSProperties}
+        />
+        {inputErrors.length > 0 && (
+          <ul role="alert" style={{ color: '#ef4444', marginTop: 8 } as CSSProperties}>
+            {inputErrors.map(error => formatMessage(error, STRINGS[locale])).map(message => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+        <div style={{ marginTop: 8 } as CSSProperties}>
+          <button onClick={handleApplyArray}>{t('applyArray')}</button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default withPageLifecycle(InversionNumberVisualization)
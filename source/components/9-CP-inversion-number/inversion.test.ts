@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { createRandom } from '../visualizer'
+import { EVENT_TYPES, Event, buildSegments, mergeSortInversions } from './inversion'
+
+// mergeSortInversions checked against counting every pair, on seeded random
+// arrays so a failure always reproduces
+
+function bruteForceInversions(values: number[]): number {
+  let count = 0
+  for (let i = 0; i < values.length; i++) {
+    for (let j = i + 1; j < values.length; j++) {
+      if (values[i] > values[j]) count++
+    }
+  }
+  return count
+}
+
+function finalTotal(events: Event[]): number {
+  const merged = events.filter(event => event.type === EVENT_TYPES.MERGED)
+  return merged.length > 0 ? merged[merged.length - 1].total! : 0
+}
+
+describe('mergeSortInversions', () => {
+  it('counts the inversions of the post example', () => {
+    expect(finalTotal(mergeSortInversions([1, 2, 5, 6, 10, 3, 4, 7, 8, 9]))).toBe(9)
+  })
+
+  it('handles a single element and equal elements', () => {
+    expect(finalTotal(mergeSortInversions([7]))).toBe(0)
+    expect(finalTotal(mergeSortInversions([2, 2, 2, 1]))).toBe(3)
+  })
+
+  it('matches counting every pair and leaves the array sorted', () => {
+    const random = createRandom(7)
+    for (let run = 0; run < 300; run++) {
+      const values = Array.from({ length: 1 + Math.floor(random() * 32) }, () => Math.floor(random() * 10) - 5)
+      const events = mergeSortInversions(values)
+      expect(finalTotal(events)).toBe(bruteForceInversions(values))
+
+      const [root] = events.filter(event => event.type === EVENT_TYPES.MERGED && event.lo === 0 && event.hi === values.length - 1)
+      if (values.length > 1) expect(root.values).toEqual([...values].sort((a, b) => a - b))
+
+      // Every merge_sort call shows up as exactly one split or base event
+      const calls = events.filter(event => event.type === EVENT_TYPES.SPLIT || event.type === EVENT_TYPES.BASE)
+      expect(calls.map(event => event.id).sort()).toEqual(Object.keys(buildSegments(values.length)).sort())
+    }
+  })
+})
@@ -0,0 +1,178 @@
+import { VisualizerEvent } from '../visualizer'
+
+// Merge sort with inversion counting as pure functions: no DOM, React or
+// Cytoscape, so the event stream can be computed and checked headlessly.
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EventType = typeof EVENT_TYPES[keyof typeof EVENT_TYPES]
+
+export type Event = VisualizerEvent<EventType> & {
+  lo: number
+  hi: number
+  mid?: number
+  side?: 'left' | 'right'
+  value?: number
+  added?: number
+  total?: number
+  // Halves being merged, for the merge event
+  left?: number[]
+  right?: number[]
+  // Sorted segment copied back, for the merged event
+  values?: number[]
+}
+
+export type Segment = {
+  lo: number
+  hi: number
+  parent: string | null
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const EVENT_TYPES = {
+  SPLIT: 'split',
+  BASE: 'base',
+  MERGE: 'merge',
+  TAKE: 'take',
+  MERGED: 'merged'
+} as const
+
+/**
+ * C++ listing of the algorithm run by mergeSortInversions. Keyed lines are the
+ * ones events point at; the key is resolved to a 1-based line number in CODE_LINE.
+ */
+export const SOURCE_CODE: Array<[string, string]> = [
+  ['', 'long long merge_sort(int l, int r) {  // 排序 a[l..r]'],
+  ['base', '    if (l >= r) return 0;'],
+  ['split', '    int mid = (l + r) / 2;'],
+  ['', '    long long cnt = merge_sort(l, mid) + merge_sort(mid + 1, r);'],
+  ['merge', '    int i = l, j = mid + 1, k = l;'],
+  ['', '    while (i <= mid && j <= r) {'],
+  ['takeLeft', '        if (a[i] <= a[j]) tmp[k++] = a[i++];'],
+  ['', '        else {'],
+  ['takeRight', '            cnt += mid - i + 1;  // a[i..mid] 都比 a[j] 大'],
+  ['', '            tmp[k++] = a[j++];'],
+  ['', '        }'],
+  ['', '    }'],
+  ['restLeft', '    while (i <= mid) tmp[k++] = a[i++];'],
+  ['restRight', '    while (j <= r) tmp[k++] = a[j++];'],
+  ['merged', '    for (k = l; k <= r; k++) a[k] = tmp[k];'],
+  ['', '    return cnt;'],
+  ['', '}']
+]
+
+export const CODE_LINE: Record<string, number> = Object.fromEntries(
+  SOURCE_CODE
+    .map(([key], index) => [key, index + 1] as [string, number])
+    .filter(([key]) => key !== '')
+)
+
+// ============================================================================
+// Merge Sort - Counting Inversions
+// ============================================================================
+
+/**
+ * Every call of merge_sort on an array of length n, keyed by `${lo}-${hi}`,
+ * with the segment of the call that made it
+ */
+export function buildSegments(length: number): Record<string, Segment> {
+  const segments: Record<string, Segment> = {}
+  const visit = (lo: number, hi: number, parent: string | null) => {
+    const id = `${lo}-${hi}`
+    segments[id] = { lo, hi, parent }
+    if (lo >= hi) return
+    const mid = Math.floor((lo + hi) / 2)
+    visit(lo, mid, id)
+    visit(mid + 1, hi, id)
+  }
+  if (length > 0) visit(0, length - 1, null)
+  return segments
+}
+
+/**
+ * Runs merge sort on a copy of `values` and records every step as an event:
+ * entering a segment, starting a merge, every element taken into tmp (adding
+ * `mid - i + 1` inversions whenever the right element is smaller) and the
+ * sorted segment being copied back.
+ */
+export function mergeSortInversions(values: number[]): Event[] {
+  const a = [...values]
+  const events: Event[] = []
+  let total = 0
+
+  function sort(lo: number, hi: number) {
+    const id = `${lo}-${hi}`
+    if (lo >= hi) {
+      events.push({
+        id, type: EVENT_TYPES.BASE, lo, hi, line: CODE_LINE.base,
+        message: { key: EVENT_TYPES.BASE, params: { lo, hi, value: a[lo] } }
+      })
+      return
+    }
+
+    const mid = Math.floor((lo + hi) / 2)
+    events.push({
+      id, type: EVENT_TYPES.SPLIT, lo, hi, mid, line: CODE_LINE.split,
+      message: { key: EVENT_TYPES.SPLIT, params: { lo, hi, mid, mid1: mid + 1 } }
+    })
+    sort(lo, mid)
+    sort(mid + 1, hi)
+
+    const left = a.slice(lo, mid + 1)
+    const right = a.slice(mid + 1, hi + 1)
+    events.push({
+      id, type: EVENT_TYPES.MERGE, lo, hi, mid, left, right, line: CODE_LINE.merge,
+      message: { key: EVENT_TYPES.MERGE, params: { lo, mid1: mid + 1, left: left.join(' '), right: right.join(' ') } }
+    })
+
+    const tmp: number[] = []
+    let i = lo
+    let j = mid + 1
+    while (i <= mid && j <= hi) {
+      if (a[i] <= a[j]) {
+        events.push({
+          id, type: EVENT_TYPES.TAKE, lo, hi, mid, side: 'left', value: a[i], added: 0, total, line: CODE_LINE.takeLeft,
+          message: { key: 'takeLeft', params: { value: a[i], other: a[j] } }
+        })
+        tmp.push(a[i++])
+      } else {
+        // a[i..mid] are all greater than a[j] and come before it
+        const added = mid - i + 1
+        total += added
+        events.push({
+          id, type: EVENT_TYPES.TAKE, lo, hi, mid, side: 'right', value: a[j], added, total, line: CODE_LINE.takeRight,
+          message: { key: 'takeRight', params: { value: a[j], other: a[i], i, mid, added, total } }
+        })
+        tmp.push(a[j++])
+      }
+    }
+    while (i <= mid) {
+      events.push({
+        id, type: EVENT_TYPES.TAKE, lo, hi, mid, side: 'left', value: a[i], added: 0, total, line: CODE_LINE.restLeft,
+        message: { key: 'restLeft', params: { value: a[i] } }
+      })
+      tmp.push(a[i++])
+    }
+    while (j <= hi) {
+      events.push({
+        id, type: EVENT_TYPES.TAKE, lo, hi, mid, side: 'right', value: a[j], added: 0, total, line: CODE_LINE.restRight,
+        message: { key: 'restRight', params: { value: a[j] } }
+      })
+      tmp.push(a[j++])
+    }
+
+    a.splice(lo, tmp.length, ...tmp)
+    events.push({
+      id, type: EVENT_TYPES.MERGED, lo, hi, values: tmp, total, line: CODE_LINE.merged,
+      message: { key: EVENT_TYPES.MERGED, params: { lo, hi, values: tmp.join(' '), total } }
+    })
+  }
+
+  if (values.length > 0) sort(0, values.length - 1)
+  return events
+}
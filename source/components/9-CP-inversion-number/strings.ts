@@ -0,0 +1,190 @@
+import { Translations } from '../visualizer'
+
+// Every user-facing string of the inversion visualizer, one table per locale.
+// `{name}` placeholders are filled by createTranslator / formatMessage.
+
+// ============================================================================
+// Narration
+// ============================================================================
+
+const ZH_TW_MESSAGES = {
+  split: '將 a[{lo}..{hi}] 從 mid = {mid} 切成 a[{lo}..{mid}] 與 a[{mid1}..{hi}]，分別遞迴排序',
+  base: 'a[{lo}..{hi}] 只有一個元素 {value}，已經排好，回傳 0',
+  merge: '合併左半 [{left}] 與右半 [{right}]：i = {lo}，j = {mid1}',
+  takeLeft: 'a[i] = {value} <= a[j] = {other}，取左邊的 {value}，沒有新的逆序數對',
+  takeRight: 'a[j] = {value} < a[i] = {other}：左半剩下的 a[{i}..{mid}] 共 mid - i + 1 = {added} 個都比 {value} 大，逆序數對 +{added} = {total}',
+  restLeft: '右半已經取完，把左邊剩下的 {value} 接上',
+  restRight: '左半已經取完，把右邊剩下的 {value} 接上（左半沒有剩下的數，不會產生逆序數對）',
+  merged: '把 tmp 複製回 a[{lo}..{hi}] = [{values}]，目前共找到 {total} 個逆序數對'
+}
+
+/**
+ * Narration for every event, keyed by Message.key
+ */
+export const MESSAGES: Translations<keyof typeof ZH_TW_MESSAGES> = {
+  'zh-TW': ZH_TW_MESSAGES,
+  'zh-CN': {
+    split: '将 a[{lo}..{hi}] 从 mid = {mid} 切成 a[{lo}..{mid}] 与 a[{mid1}..{hi}]，分别递归排序',
+    base: 'a[{lo}..{hi}] 只有一个元素 {value}，已经排好，返回 0',
+    merge: '合并左半 [{left}] 与右半 [{right}]：i = {lo}，j = {mid1}',
+    takeLeft: 'a[i] = {value} <= a[j] = {other}，取左边的 {value}，没有新的逆序对',
+    takeRight: 'a[j] = {value} < a[i] = {other}：左半剩下的 a[{i}..{mid}] 共 mid - i + 1 = {added} 个都比 {value} 大，逆序对 +{added} = {total}',
+    restLeft: '右半已经取完，把左边剩下的 {value} 接上',
+    restRight: '左半已经取完，把右边剩下的 {value} 接上（左半没有剩下的数，不会产生逆序对）',
+    merged: '把 tmp 复制回 a[{lo}..{hi}] = [{values}]，目前共找到 {total} 个逆序对'
+  },
+  en: {
+    split: 'Split a[{lo}..{hi}] at mid = {mid} into a[{lo}..{mid}] and a[{mid1}..{hi}] and sort each recursively',
+    base: 'a[{lo}..{hi}] holds a single element {value}, which is already sorted: return 0',
+    merge: 'Merge the left half [{left}] with the right half [{right}]: i = {lo}, j = {mid1}',
+    takeLeft: 'a[i] = {value} <= a[j] = {other}: take {value} from the left, no new inversions',
+    takeRight: 'a[j] = {value} < a[i] = {other}: all mid - i + 1 = {added} elements left in a[{i}..{mid}] are greater than {value}, inversions +{added} = {total}',
+    restLeft: 'The right half is used up: append the remaining {value} from the left',
+    restRight: 'The left half is used up: append the remaining {value} from the right (nothing is left on the left, so no inversions)',
+    merged: 'Copy tmp back to a[{lo}..{hi}] = [{values}]; {total} inversions found so far'
+  },
+  ja: {
+    split: 'a[{lo}..{hi}] を mid = {mid} で a[{lo}..{mid}] と a[{mid1}..{hi}] に分け、それぞれ再帰的にソートする',
+    base: 'a[{lo}..{hi}] は要素 {value} が一つだけでソート済み、0 を返す',
+    merge: '左半分 [{left}] と右半分 [{right}] をマージ：i = {lo}、j = {mid1}',
+    takeLeft: 'a[i] = {value} <= a[j] = {other} なので左の {value} を取る、新しい転倒はない',
+    takeRight: 'a[j] = {value} < a[i] = {other}：左半分に残る a[{i}..{mid}] の mid - i + 1 = {added} 個はすべて {value} より大きい、転倒数 +{added} = {total}',
+    restLeft: '右半分を使い切ったので、左に残る {value} を続ける',
+    restRight: '左半分を使い切ったので、右に残る {value} を続ける（左に残りがないので転倒は生じない）',
+    merged: 'tmp を a[{lo}..{hi}] = [{values}] に書き戻す、これまでの転倒数は {total}'
+  }
+}
+
+// ============================================================================
+// Interface
+// ============================================================================
+
+const ZH_TW_STRINGS = {
+  placeholder: '按「下一步」或「播放」開始 merge sort',
+  leftHalf: '左半 a[{lo}..{hi}]',
+  rightHalf: '右半 a[{lo}..{hi}]',
+  processing: '正在處理 a[{lo}..{hi}]',
+  inversions: '逆序數對：{count}',
+  callStack: '呼叫堆疊',
+  empty: '（空）',
+  round: '輪次',
+  merged: '新陣列',
+  oldLeft: '左方舊陣列',
+  oldRight: '右方舊陣列',
+  added: '逆序數對',
+  customArray: '自訂陣列',
+  inputHint: '以空白或逗號分隔的整數，最多 {max} 個',
+  applyArray: '套用陣列',
+  errorNotInteger: '第 {index} 個數「{token}」不是整數',
+  errorEmpty: '請至少輸入一個數',
+  errorTooLong: '最多 {max} 個數，目前有 {count} 個',
+  canvasLabel: 'merge sort 的遞迴樹，每一段的內容與狀態列在下方的表格',
+  staticLabel: 'merge sort 的遞迴樹，啟用 JavaScript 後可以逐步播放',
+  mirrorSegments: '遞迴樹的每一段',
+  columnSegment: '區段',
+  columnValues: '內容',
+  columnState: '狀態',
+  stateUnvisited: '尚未呼叫',
+  stateVisiting: '遞迴中',
+  stateCurrent: '目前區段',
+  stateVisited: '已排好'
+}
+
+export type StringKey = keyof typeof ZH_TW_STRINGS
+
+/**
+ * Labels and input errors
+ */
+export const STRINGS: Translations<StringKey> = {
+  'zh-TW': ZH_TW_STRINGS,
+  'zh-CN': {
+    placeholder: '按“下一步”或“播放”开始 merge sort',
+    leftHalf: '左半 a[{lo}..{hi}]',
+    rightHalf: '右半 a[{lo}..{hi}]',
+    processing: '正在处理 a[{lo}..{hi}]',
+    inversions: '逆序对：{count}',
+    callStack: '调用栈',
+    empty: '（空）',
+    round: '轮次',
+    merged: '新数组',
+    oldLeft: '左边旧数组',
+    oldRight: '右边旧数组',
+    added: '逆序对',
+    customArray: '自定义数组',
+    inputHint: '以空格或逗号分隔的整数，最多 {max} 个',
+    applyArray: '应用数组',
+    errorNotInteger: '第 {index} 个数“{token}”不是整数',
+    errorEmpty: '请至少输入一个数',
+    errorTooLong: '最多 {max} 个数，当前有 {count} 个',
+    canvasLabel: 'merge sort 的递归树，每一段的内容与状态列在下方的表格',
+    staticLabel: 'merge sort 的递归树，启用 JavaScript 后可以逐步播放',
+    mirrorSegments: '递归树的每一段',
+    columnSegment: '区段',
+    columnValues: '内容',
+    columnState: '状态',
+    stateUnvisited: '尚未调用',
+    stateVisiting: '递归中',
+    stateCurrent: '当前区段',
+    stateVisited: '已排好'
+  },
+  en: {
+    placeholder: 'Press "Next" or "Play" to start the merge sort',
+    leftHalf: 'Left half a[{lo}..{hi}]',
+    rightHalf: 'Right half a[{lo}..{hi}]',
+    processing: 'Working on a[{lo}..{hi}]',
+    inversions: 'Inversions: {count}',
+    callStack: 'Call stack',
+    empty: '(empty)',
+    round: 'Round',
+    merged: 'New array',
+    oldLeft: 'Old left array',
+    oldRight: 'Old right array',
+    added: 'Inversions',
+    customArray: 'Custom array',
+    inputHint: 'Integers separated by spaces or commas, at most {max}',
+    applyArray: 'Apply array',
+    errorNotInteger: 'Number {index} "{token}" is not an integer',
+    errorEmpty: 'Please enter at least one number',
+    errorTooLong: 'At most {max} numbers, got {count}',
+    canvasLabel: 'Recursion tree of the merge sort; the contents and state of every segment are listed in the table below',
+    staticLabel: 'Recursion tree of the merge sort; enable JavaScript to step through it',
+    mirrorSegments: 'Segments of the recursion tree',
+    columnSegment: 'Segment',
+    columnValues: 'Contents',
+    columnState: 'State',
+    stateUnvisited: 'Not called yet',
+    stateVisiting: 'Recursing',
+    stateCurrent: 'Current segment',
+    stateVisited: 'Sorted'
+  },
+  ja: {
+    placeholder: '「次へ」または「再生」を押して merge sort を開始',
+    leftHalf: '左半分 a[{lo}..{hi}]',
+    rightHalf: '右半分 a[{lo}..{hi}]',
+    processing: 'a[{lo}..{hi}] を処理中',
+    inversions: '転倒数：{count}',
+    callStack: 'コールスタック',
+    empty: '（空）',
+    round: 'ラウンド',
+    merged: '新しい配列',
+    oldLeft: '左の元の配列',
+    oldRight: '右の元の配列',
+    added: '転倒数',
+    customArray: 'カスタム配列',
+    inputHint: '空白またはカンマ区切りの整数、最大 {max} 個',
+    applyArray: '配列を適用',
+    errorNotInteger: '{index} 番目の「{token}」は整数ではありません',
+    errorEmpty: '数を少なくとも一つ入力してください',
+    errorTooLong: '最大 {max} 個ですが、{count} 個あります',
+    canvasLabel: 'merge sort の再帰木、各区間の内容と状態は下の表にあります',
+    staticLabel: 'merge sort の再帰木、JavaScript を有効にするとステップ実行できます',
+    mirrorSegments: '再帰木の各区間',
+    columnSegment: '区間',
+    columnValues: '内容',
+    columnState: '状態',
+    stateUnvisited: '未呼び出し',
+    stateVisiting: '再帰中',
+    stateCurrent: '現在の区間',
+    stateVisited: 'ソート済み'
+  }
+}
@@ -1,81 +1,179 @@
 import React, { useEffect, useRef, useMemo, useState } from 'react'
 import cytoscape from 'cytoscape'
+import {
+  DEFAULT_LOCALE,
+  FocusRing,
+  Legend,
+  LegendItem,
+  Message,
+  STYLES,
+  ScreenReaderTable,
+  StaticGraphContext,
+  ThemeMode,
+  ViewControls,
+  adoptStaticGraph,
+  createTranslator,
+  renderGraphSvg,
+  useFitOnResize,
+  useFullscreen,
+  useInView,
+  useLocale,
+  useThemeMode,
+  withPageLifecycle,
+} from '../visualizer'
+import { SKILL_LEVELS, SkillLevel, SkillLinks, SkillNode, TreeData, convertToElements } from './skills'
+import { STRINGS, StringKey } from './strings'
 
-const DEFAULT_TREE_DATA: TreeData = {
-  "我的技能樹": {
-    "競程": {
-      "語法": {
-        "C++": {},
-        "Python": {},
-      },
-      "演算法": {
-        "資料型態": {
-          "linklist": {},
-          "stack": {},
-          "queue": {},
-          "binary tree": {},
-          "treap": {},
-          "segment tree": {},
-          "zkw segment tree": {},
-          "fenwick tree": {},
-        },
-        "圖論": { 
-          "DFS/BFS": {},
-          "最短路徑": {},
-          "最小生成樹": {},
-          "拓撲排序": {},
-        },
-        "動態規劃": {
-          "背包問題": {},
-          "區間DP": {},
-        },
-      },
-    },
-    "前端": {
-      "HTML": {},
-      "CSS": {},
-      "JS/TS": {},
-      "React": {},
-    },
-    "後端": {
-      "Node.js": {},
-    },
-    "資料庫": {}
-  }
-}
-
-export interface TreeData {
-  [key: string]: TreeData | undefined
-}
+export type { SkillLevel, SkillNode, SkillLinks, TreeData } from './skills'
 
 interface CytoscapeTreeProps {
+  // Defaults to the skills published from source/_data/skills.yml
   data?: TreeData
   style?: cytoscape.StylesheetCSS[]
 }
 
-const defaultStyles: cytoscape.StylesheetCSS[] = [
+// Written by scripts/skill-tree.js at build time
+const SKILLS_URL = '/skills.json'
+
+// Node diameter per level, on top of the padding around the label
+const LEVEL_SIZES: Record<SkillLevel, number> = {
+  learning: 24,
+  familiar: 32,
+  proficient: 40,
+  expert: 48,
+}
+
+interface TreeTheme {
+  node: string
+  nodeBorder: string
+  label: string
+  edge: string
+  background: string
+  border: string
+  // Search matches and the path leading to them
+  highlight: string
+  // Pie filling a category up to its average level, kept apart from highlight
+  progress: string
+  // Text of the popover
+  text: string
+  // Fill per proficiency level, from light to strong
+  levels: Record<SkillLevel, string>
+}
+
+// Details shown while hovering a node
+interface Tooltip {
+  lines: string[]
+  x: number
+  y: number
+}
+
+// The skill whose links are shown, anchored below the node
+interface Popover {
+  id: string
+  label: string
+  related: SkillLinks
+  hasChildren: boolean
+  x: number
+  y: number
+}
+
+type TreeLayoutName = 'tree' | 'radial' | 'cose'
+
+type Translate = (key: StringKey, params?: Message['params']) => string
+
+// One set of colors per mode of the site's light / sunset / dark switch
+const TREE_THEMES: Record<ThemeMode, TreeTheme> = {
+  light: {
+    node: '#4a90e2',
+    nodeBorder: '#2e5c8a',
+    label: '#fff',
+    edge: '#999',
+    background: '#fafafa',
+    border: '#ddd',
+    highlight: '#f59e0b',
+    progress: '#10b981',
+    text: '#333',
+    levels: { learning: '#bfdbfe', familiar: '#7fb2ec', proficient: '#4a90e2', expert: '#1d4ed8' },
+  },
+  sunset: {
+    node: '#ff8e53',
+    nodeBorder: '#c2410c',
+    label: '#fff',
+    edge: '#c4a484',
+    background: '#fff5e6',
+    border: '#f3d9c0',
+    highlight: '#b45309',
+    progress: '#0d9488',
+    text: '#8b4513',
+    levels: { learning: '#fed7aa', familiar: '#ffb07a', proficient: '#ff8e53', expert: '#c2410c' },
+  },
+  dark: {
+    node: '#2563eb',
+    nodeBorder: '#93c5fd',
+    label: '#f2f2f2',
+    edge: '#6b7280',
+    background: '#262626',
+    border: '#404040',
+    highlight: '#facc15',
+    progress: '#34d399',
+    text: '#f2f2f2',
+    levels: { learning: '#1e3a8a', familiar: '#1d4ed8', proficient: '#2563eb', expert: '#60a5fa' },
+  },
+}
+
+const LAYOUT_OPTIONS: Array<{ name: TreeLayoutName, label: StringKey }> = [
+  { name: 'tree', label: 'layoutTree' },
+  { name: 'radial', label: 'layoutRadial' },
+  { name: 'cose', label: 'layoutCose' },
+]
+
+const createTreeStyles = (theme: TreeTheme): cytoscape.StylesheetCSS[] => [
   {
     selector: 'node',
     css: {
-      'background-color': '#4a90e2',
-      'label': 'data(id)',
+      'background-color': theme.node,
+      'label': 'data(display)',
       'text-valign': 'center',
       'text-halign': 'center',
-      'color': '#fff',
+      'color': theme.label,
       'padding': '10px',
       'font-size': '14px',
       'font-weight': 'bold',
       'text-wrap': 'wrap',
       'text-max-width': '100px',
       'border-width': 2,
-      'border-color': '#2e5c8a',
+      'border-color': theme.nodeBorder,
+    },
+  },
+  ...SKILL_LEVELS.map(level => ({
+    selector: `node[level = "${level}"]`,
+    css: {
+      'background-color': theme.levels[level],
+      'width': LEVEL_SIZES[level],
+      'height': LEVEL_SIZES[level],
+    },
+  })),
+  {
+    // Still being learned
+    selector: 'node[level = "learning"]',
+    css: {
+      'border-style': 'dashed',
+    },
+  },
+  {
+    // A category fills up with the average proficiency of its skills
+    selector: 'node[progress]',
+    css: {
+      'pie-size': '100%',
+      'pie-1-background-color': theme.progress,
+      'pie-1-background-size': (node: cytoscape.NodeSingular) => node.data('progress'),
     },
   },
   {
     selector: 'edge',
     css: {
-      'line-color': '#999',
-      'target-arrow-color': '#999',
+      'line-color': theme.edge,
+      'target-arrow-color': theme.edge,
       'target-arrow-shape': 'triangle',
       'curve-style': 'bezier',
       'width': 2,
@@ -83,120 +181,428 @@ const defaultStyles: cytoscape.StylesheetCSS[] = [
   },
 ]
 
+// Collapse and search states, kept on top of custom styles too
+const createInteractionStyles = (theme: TreeTheme): cytoscape.StylesheetCSS[] => [
+  {
+    selector: '.hidden',
+    css: {
+      'display': 'none',
+    },
+  },
+  {
+    selector: 'node.collapsed',
+    css: {
+      'border-style': 'double',
+      'border-width': 6,
+    },
+  },
+  {
+    // The skill the keyboard is on
+    selector: 'node.focused',
+    css: {
+      'overlay-color': theme.text,
+      'overlay-opacity': 0.2,
+      'overlay-padding': 6,
+    },
+  },
+  {
+    selector: '.faded',
+    css: {
+      'opacity': 0.3,
+    },
+  },
+  {
+    selector: 'node.match',
+    css: {
+      'background-color': theme.highlight,
+    },
+  },
+  {
+    selector: 'node.match-path',
+    css: {
+      'border-color': theme.highlight,
+      'border-width': 4,
+    },
+  },
+  {
+    selector: 'edge.match-path',
+    css: {
+      'line-color': theme.highlight,
+      'target-arrow-color': theme.highlight,
+      'width': 4,
+    },
+  },
+]
 
-
-const convertToElements = (data: TreeData, parentId?: string): cytoscape.ElementDefinition[] => {
-  if (!data || typeof data !== 'object') {
-    return []
+const createLayout = (name: TreeLayoutName, roots: string[], animate = true): cytoscape.LayoutOptions => {
+  switch (name) {
+    case 'tree':
+      return { name: 'breadthfirst', directed: true, roots, spacingFactor: 1.1, animate, animationDuration: 300, padding: 20 }
+    case 'radial':
+      return { name: 'breadthfirst', directed: true, roots, circle: true, animate, animationDuration: 300, padding: 20 }
+    case 'cose':
+      return { name: 'cose', animate, animationDuration: 500, padding: 20 }
   }
+}
 
-  const elements: cytoscape.ElementDefinition[] = []
-  let edgeId = 0
-  const allNodes = new Set<string>()
-  const parentNodes = new Set<string>()
-
-  const traverse = (obj: TreeData, parent?: string) => {
-    if (!obj || typeof obj !== 'object') return
-    
-    for (const [key, value] of Object.entries(obj)) {
-      allNodes.add(key)
-      
-      // Add node
-      elements.push({
-        data: { id: key },
-      })
+/**
+ * The text drawn on a node: icon and name, the number of related posts, and
+ * for a collapsed node how many skills it hides
+ */
+const formatDisplay = (node: cytoscape.NodeSingular, t: Translate, hidden = 0) => {
+  const icon = node.data('icon') as string | undefined
+  const related = node.data('related') as SkillLinks | undefined
+  let display = icon ? `${icon} ${node.data('label')}` : node.data('label') as string
+  if (related && related.posts.length > 0) display += ` · ${t('postCount', { count: related.posts.length })}`
+  if (hidden > 0) display += ` (+${hidden})`
+  return display
+}
 
-      // Add edge if there's a parent
-      if (parent) {
-        parentNodes.add(key)
-        elements.push({
-          data: {
-            id: `${parent}-${key}-${edgeId++}`,
-            source: parent,
-            target: key,
-          },
-        })
-      }
+/**
+ * Hides the subtrees of collapsed nodes behind a count badge and highlights
+ * search matches together with their path from the root
+ */
+const applyTreeState = (cy: cytoscape.Core, collapsed: Set<string>, query: string, t: Translate) => {
+  cy.batch(() => {
+    cy.elements().removeClass('hidden collapsed faded match match-path')
+    cy.nodes().forEach(node => {
+      node.data('display', formatDisplay(node, t))
+    })
 
-      // Recursively process children
-      if (value && typeof value === 'object' && Object.keys(value).length > 0) {
-        traverse(value, key)
-      }
-    }
+    collapsed.forEach(id => {
+      const node = cy.getElementById(id)
+      const descendants = node.successors()
+      if (descendants.empty()) return
+      descendants.addClass('hidden')
+      node.addClass('collapsed')
+      node.data('display', formatDisplay(node, t, descendants.nodes().length))
+    })
+
+    const needle = query.trim().toLowerCase()
+    if (!needle) return
+    const matches = cy.nodes().filter(node => (node.data('label') as string).toLowerCase().includes(needle))
+    const path = matches.predecessors()
+    cy.elements().not(matches).not(path).addClass('faded')
+    matches.addClass('match')
+    path.addClass('match-path')
+  })
+}
+
+const runTreeLayout = (cy: cytoscape.Core, name: TreeLayoutName, animate = true) => {
+  const roots = cy.nodes().roots().map(node => node.id())
+  cy.elements().not('.hidden').layout(createLayout(name, roots, animate)).run()
+}
+
+const POPOVER_WIDTH = 280
+
+const getLegendGroups = (theme: TreeTheme, t: Translate): LegendItem[][] => [
+  SKILL_LEVELS.map(level => ({
+    label: t(level),
+    kind: 'node' as const,
+    color: theme.levels[level],
+    dashed: level === 'learning',
+  })),
+  [
+    { label: t('legendProgress'), kind: 'node', color: theme.progress },
+    { label: t('legendSize'), kind: 'text' },
+  ],
+]
+
+const describeSkill = (node: cytoscape.NodeSingular, t: Translate): string[] => {
+  const lines: string[] = []
+  const { description, level, learned, progress } = node.data() as SkillNode & { progress?: number }
+  if (description) lines.push(description)
+  if (level) lines.push(t('level', { level: t(level) }))
+  if (learned) lines.push(t('learned', { date: learned }))
+  if (progress !== undefined) lines.push(t('progress', { percent: progress }))
+  return lines
+}
+
+/**
+ * The tooltip above a node, or null when there is nothing to tell beyond its name
+ */
+const createTooltip = (node: cytoscape.NodeSingular, t: Translate): Tooltip | null => {
+  const lines = describeSkill(node, t)
+  if (lines.length === 0) return null
+  const { x, y } = node.renderedPosition()
+  return { lines: [node.data('label'), ...lines], x, y: y - node.renderedOuterHeight() / 2 - 8 }
+}
+
+/**
+ * The popover below a node with related posts, kept inside the canvas
+ */
+const createPopover = (cy: cytoscape.Core, node: cytoscape.NodeSingular): Popover | null => {
+  const related = node.data('related') as SkillLinks | undefined
+  if (!related) return null
+  const { x, y } = node.renderedPosition()
+  return {
+    id: node.id(),
+    label: node.data('label'),
+    related,
+    hasChildren: node.outgoers('node').nonempty(),
+    x: Math.min(Math.max(x, POPOVER_WIDTH / 2), cy.width() - POPOVER_WIDTH / 2),
+    y: y + node.renderedOuterHeight() / 2 + 8,
   }
+}
+
+/**
+ * One row per skill in tree order for the screen-reader mirror
+ */
+const describeSkills = (elements: cytoscape.ElementDefinition[], t: Translate) =>
+  elements
+    .filter(el => !('source' in el.data))
+    .map(({ data }) => {
+      const { level, learned, progress, related } = data as SkillNode & { progress?: number }
+      return {
+        key: data.id as string,
+        cells: [
+          (data.id as string).split('/').map(decodeURIComponent).join(' > '),
+          level ? t(level) : '',
+          learned ?? '',
+          progress !== undefined ? `${progress}%` : '',
+          related ? String(related.posts.length) : '',
+        ],
+      }
+    })
+
+interface SkillPopoverProps {
+  popover: Popover
+  theme: TreeTheme
+  isCollapsed: boolean
+  onToggle: () => void
+  onClose: () => void
+  t: Translate
+}
+
+/**
+ * The posts, tags and categories related to one skill
+ */
+function SkillPopover({ popover, theme, isCollapsed, onToggle, onClose, t }: SkillPopoverProps) {
+  const { label, related, hasChildren, x, y } = popover
+  const sectionTitle = { fontWeight: 'bold' as const, marginTop: '8px' }
+
+  return (
+    <div
+      role="dialog"
+      aria-label={label}
+      style={{
+        position: 'absolute',
+        left: x,
+        top: y,
+        transform: 'translateX(-50%)',
+        width: `${POPOVER_WIDTH}px`,
+        maxHeight: '320px',
+        overflowY: 'auto',
+        padding: '12px',
+        border: `1px solid ${theme.border}`,
+        borderRadius: '8px',
+        backgroundColor: theme.background,
+        color: theme.text,
+        fontSize: '14px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.2)',
+        zIndex: 10,
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <strong>{label}</strong>
+        <button onClick={onClose} aria-label={t('close')}>×</button>
+      </div>
+      {related.posts.length > 0 && (
+        <>
+          <div style={sectionTitle}>{t('relatedPosts')}</div>
+          <ul style={{ margin: '4px 0', paddingLeft: '20px' }}>
+            {related.posts.map(post => (
+              <li key={post.url}><a href={post.url}>{post.title}</a></li>
+            ))}
+          </ul>
+        </>
+      )}
+      {related.tags.length > 0 && (
+        <>
+          <div style={sectionTitle}>{t('tags')}</div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+            {related.tags.map(tag => <a key={tag.url} href={tag.url}>#{tag.name}</a>)}
+          </div>
+        </>
+      )}
+      {related.categories.length > 0 && (
+        <>
+          <div style={sectionTitle}>{t('categories')}</div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+            {related.categories.map(category => <a key={category.url} href={category.url}>{category.name}</a>)}
+          </div>
+        </>
+      )}
+      {hasChildren && (
+        <button onClick={onToggle} style={{ marginTop: '8px' }}>
+          {t(isCollapsed ? 'expandChildren' : 'collapseChildren')}
+        </button>
+      )}
+    </div>
+  )
+}
 
-  traverse(data)
-  return elements
+/**
+ * The whole tree as the build sees it in source/_data/skills.yml, inlined as an SVG
+ */
+export function renderStaticGraph({ data }: StaticGraphContext): string {
+  if (!data.skills) return ''
+  const elements = convertToElements(data.skills as TreeData)
+  const t = createTranslator(STRINGS[DEFAULT_LOCALE])
+  const targets = new Set(elements.filter(el => 'source' in el.data).map(el => el.data.target as string))
+  const roots = elements.filter(el => !('source' in el.data) && !targets.has(el.data.id as string)).map(el => el.data.id as string)
+  return renderGraphSvg({
+    elements,
+    stylesheet: [...createTreeStyles(TREE_THEMES.light), ...createInteractionStyles(TREE_THEMES.light)],
+    layout: createLayout('tree', roots),
+    height: 700,
+    title: t('title'),
+  })
 }
 
-export default function CytoscapeTree({ data, style = defaultStyles }: CytoscapeTreeProps) {
+function CytoscapeTree({ data, style }: CytoscapeTreeProps) {
+  const rootRef = useRef<HTMLDivElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const cyRef = useRef<cytoscape.Core | null>(null)
+  const fullscreen = useFullscreen(rootRef)
+  useFitOnResize(containerRef, cyRef)
+  const locale = useLocale(rootRef)
+  const t: Translate = createTranslator(STRINGS[locale])
+  // Read by Cytoscape's handlers, which outlive a render
+  const translateRef = useRef(t)
+  translateRef.current = t
   const [error, setError] = useState<string | null>(null)
-  const [mounted, setMounted] = useState(false)
+  const inView = useInView(containerRef)
+  const fallbackRef = useRef<HTMLElement | null>(null)
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set())
+  const [query, setQuery] = useState('')
+  const [layoutName, setLayoutName] = useState<TreeLayoutName>('tree')
+  const [popover, setPopover] = useState<Popover | null>(null)
+  const [tooltip, setTooltip] = useState<Tooltip | null>(null)
+  // The skill the keyboard is on, shown with its tooltip like a hovered one
+  const [focusedId, setFocusedId] = useState<string | null>(null)
+  // Read when Cytoscape is (re)created, so a rebuild keeps the current view
+  const viewRef = useRef({ collapsed, query, layoutName })
+  viewRef.current = { collapsed, query, layoutName }
+
+  // Follow the site's theme unless the caller passed its own styles
+  const theme = TREE_THEMES[useThemeMode()]
+  const stylesheet = useMemo(
+    () => [...(style || createTreeStyles(theme)), ...createInteractionStyles(theme)],
+    [style, theme]
+  )
+  const stylesheetRef = useRef(stylesheet)
+  stylesheetRef.current = stylesheet
 
-  // Use fallback data if none provided
-  const treeData = data || DEFAULT_TREE_DATA
+  // Without a data prop, load the skills published at build time
+  const [loadedData, setLoadedData] = useState<TreeData | null>(null)
+  useEffect(() => {
+    if (data) return
+    let cancelled = false
+    fetch(SKILLS_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`${SKILLS_URL} returned ${response.status}`)
+        return response.json()
+      })
+      .then(json => {
+        if (!cancelled) setLoadedData(json)
+      })
+      .catch(e => {
+        if (!cancelled) setError(`Load error: ${e instanceof Error ? e.message : String(e)}`)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [data])
+
+  const treeData = data || loadedData
 
-  const elements = useMemo(() => {
+  // Bad data is part of what the memo returns, so rendering never sets state
+  const { elements, dataError } = useMemo((): { elements: cytoscape.ElementDefinition[], dataError: string | null } => {
+    if (!treeData) return { elements: [], dataError: null }
     try {
-      const els = convertToElements(treeData)
-      return els || []
+      return { elements: convertToElements(treeData), dataError: null }
     } catch (e) {
       const message = e instanceof Error ? e.message : 'Unknown error'
-      setError(`Data error: ${message}`)
-      return []
+      return { elements: [], dataError: `Data error: ${message}` }
     }
   }, [treeData])
 
-  // Ensure component is mounted
+  // Nodes that have children but are not roots; collapsing all of them keeps the first level visible
+  const branchIds = useMemo(() => {
+    const edges = elements.filter(el => 'source' in el.data)
+    const targets = new Set(edges.map(el => el.data.target as string))
+    return edges.map(el => el.data.source as string).filter(id => targets.has(id))
+  }, [elements])
+
+  // Show the build's rendering of the tree until Cytoscape starts
   useEffect(() => {
-    setMounted(true)
+    if (containerRef.current) {
+      fallbackRef.current = adoptStaticGraph(containerRef.current)
+    }
   }, [])
 
-  // Initialize Cytoscape
+  const toggleCollapsed = (id: string) => {
+    setCollapsed(current => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  // Clicking a skill with related posts, or pressing Enter on it, opens its
+  // links (with a fold button for branches); any other branch folds or unfolds
+  const activateNode = (cy: cytoscape.Core, node: cytoscape.NodeSingular) => {
+    const next = createPopover(cy, node)
+    if (next) setPopover(next)
+    else if (node.outgoers('node').nonempty()) toggleCollapsed(node.id())
+  }
+
+  // Initialize Cytoscape once the tree scrolls into view
   useEffect(() => {
-    if (!mounted || !containerRef.current || !elements.length) return
-
-    const timer = setTimeout(() => {
-      if (!containerRef.current) return
-
-      try {
-        const edges = elements.filter(el => 'source' in el.data)
-        const targetNodes = new Set(edges.map(el => el.data.target))
-        const nodeElements = elements.filter(el => !('source' in el.data))
-        const rootNodes = nodeElements
-          .filter(el => !targetNodes.has(el.data.id))
-          .map(el => el.data.id as string)
-
-        if (rootNodes.length === 0 && nodeElements.length > 0) {
-          rootNodes.push(nodeElements[0].data.id as string)
-        }
-
-        const cy = cytoscape({
-          container: containerRef.current,
-          elements: elements as cytoscape.ElementDefinition[],
-          style,
-          layout: {
-            name: 'cose',
-            directed: true,
-            animate: true,
-            animationDuration: 500,
-            nodeSpacing: 50,
-            padding: 20,
-          } as any,
-        })
-
-        cyRef.current = cy
-        setError(null)
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : String(e)
-        setError(`Init error: ${msg}`)
-      }
-    }, 100)
+    if (!inView || !containerRef.current || !elements.length) return
+
+    try {
+      fallbackRef.current?.remove()
+      fallbackRef.current = null
+      // Laid out once below, after folding, instead of by the constructor too
+      const cy = cytoscape({
+        container: containerRef.current,
+        elements: elements as cytoscape.ElementDefinition[],
+        style: stylesheetRef.current,
+        layout: { name: 'preset' },
+      })
+
+      cy.on('tap', 'node', event => activateNode(cy, event.target as cytoscape.NodeSingular))
+      cy.on('tap', event => {
+        if (event.target === cy) setPopover(null)
+      })
+      cy.on('mouseover', 'node', event => {
+        const next = createTooltip(event.target as cytoscape.NodeSingular, translateRef.current)
+        if (next) setTooltip(next)
+      })
+      cy.on('mouseout', 'node', () => setTooltip(null))
+      // The anchor moves with the view, so close rather than drift
+      cy.on('viewport', () => {
+        setPopover(null)
+        setTooltip(null)
+      })
+
+      const view = viewRef.current
+      applyTreeState(cy, view.collapsed, view.query, translateRef.current)
+      // Nothing to animate from yet
+      runTreeLayout(cy, view.layoutName, false)
+      cyRef.current = cy
+      setError(null)
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e)
+      setError(`Init error: ${msg}`)
+    }
 
     return () => {
-      clearTimeout(timer)
+      setPopover(null)
+      setTooltip(null)
       if (cyRef.current) {
         try {
           cyRef.current.destroy()
@@ -204,15 +610,112 @@ export default function CytoscapeTree({ data, style = defaultStyles }: Cytoscape
         cyRef.current = null
       }
     }
-  }, [elements, style, mounted])
+  }, [elements, inView])
+
+  // Restyle in place so a theme switch keeps the current layout
+  useEffect(() => {
+    if (cyRef.current) {
+      cyRef.current.style(stylesheet)
+    }
+  }, [stylesheet])
+
+  useEffect(() => {
+    if (cyRef.current) {
+      applyTreeState(cyRef.current, collapsed, query, t)
+    }
+  }, [collapsed, query, locale])
 
-  if (error) {
+  // Only folding and the layout choice move nodes; searching keeps them in place
+  useEffect(() => {
+    if (cyRef.current) {
+      runTreeLayout(cyRef.current, layoutName)
+    }
+  }, [collapsed, layoutName])
+
+  useEffect(() => {
+    const cy = cyRef.current
+    if (!cy) return
+    cy.nodes('.focused').removeClass('focused')
+    const node = focusedId ? cy.getElementById(focusedId) : null
+    if (!node || node.empty()) return
+    node.addClass('focused')
+    setTooltip(createTooltip(node, t))
+  }, [focusedId, collapsed, locale])
+
+  /**
+   * Up and down walk the visible skills in tree order, right unfolds, left
+   * folds or goes to the parent, and Enter does what a click does
+   */
+  const handleCanvasKeyDown = (event: React.KeyboardEvent) => {
+    const cy = cyRef.current
+    if (!cy) return
+    const visible = elements
+      .filter(el => !('source' in el.data) && !cy.getElementById(el.data.id as string).hasClass('hidden'))
+      .map(el => el.data.id as string)
+    const index = focusedId ? visible.indexOf(focusedId) : -1
+    const node = index >= 0 ? cy.getElementById(visible[index]) : null
+    const hasChildren = node?.outgoers('node').nonempty()
+
+    switch (event.key) {
+      case 'ArrowDown':
+        setFocusedId(visible[Math.min(index + 1, visible.length - 1)] ?? null)
+        break
+      case 'ArrowUp':
+        setFocusedId(visible[Math.max(index - 1, 0)] ?? null)
+        break
+      case 'ArrowRight':
+        if (node && collapsed.has(node.id())) toggleCollapsed(node.id())
+        break
+      case 'ArrowLeft':
+        if (node && hasChildren && !collapsed.has(node.id())) toggleCollapsed(node.id())
+        else if (node?.incomers('node').nonempty()) setFocusedId(node.incomers('node').id())
+        break
+      case 'Enter':
+      case ' ':
+        if (node) activateNode(cy, node)
+        break
+      default:
+        return
+    }
+    event.preventDefault()
+  }
+
+  useEffect(() => {
+    if (!popover) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setPopover(null)
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [popover])
+
+  const handleSearch = (value: string) => {
+    setQuery(value)
+    const cy = cyRef.current
+    const needle = value.trim().toLowerCase()
+    if (!cy || !needle) return
+
+    // Unfold whatever hides a match
+    const ancestors = new Set(
+      cy.nodes()
+        .filter(node => (node.data('label') as string).toLowerCase().includes(needle))
+        .predecessors('node')
+        .map(node => node.id())
+    )
+    setCollapsed(current => {
+      if (![...current].some(id => ancestors.has(id))) return current
+      return new Set([...current].filter(id => !ancestors.has(id)))
+    })
+  }
+
+  const shownError = dataError ?? error
+  if (shownError) {
     return (
       <div
         style={{
           width: '100%',
           height: '200px',
-          border: '1px solid #ddd',
+          border: `1px solid ${theme.border}`,
           borderRadius: '8px',
           backgroundColor: '#fee',
           display: 'flex',
@@ -224,21 +727,110 @@ export default function CytoscapeTree({ data, style = defaultStyles }: Cytoscape
           textAlign: 'center',
         }}
       >
-        {error}
+        {shownError}
       </div>
     )
   }
 
   return (
-    <div
-      ref={containerRef}
-      style={{
-        width: '100%',
-        height: '700px',
-        border: '1px solid #ddd',
-        borderRadius: '8px',
-        backgroundColor: '#fafafa',
-      }}
-    />
+    <div ref={rootRef} data-visualizer="" style={fullscreen.isFullscreen ? STYLES.fullscreen : undefined}>
+      <FocusRing />
+      <div
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: '8px',
+          marginBottom: '8px',
+        }}
+      >
+        <input
+          type="search"
+          value={query}
+          onChange={e => handleSearch(e.target.value)}
+          placeholder={t('search')}
+          aria-label={t('search')}
+          style={{ flex: 1, minWidth: '160px' }}
+        />
+        <button onClick={() => setCollapsed(new Set())}>{t('expandAll')}</button>
+        <button onClick={() => setCollapsed(new Set(branchIds))}>{t('collapseAll')}</button>
+        <label>
+          {t('layout')}{' '}
+          <select value={layoutName} onChange={e => setLayoutName(e.target.value as TreeLayoutName)}>
+            {LAYOUT_OPTIONS.map(({ name, label }) => (
+              <option key={name} value={name}>{t(label)}</option>
+            ))}
+          </select>
+        </label>
+        <ViewControls cyRef={cyRef} fullscreen={fullscreen} locale={locale} />
+      </div>
+      <div style={{ position: 'relative' }}>
+        <div
+          ref={containerRef}
+          role="application"
+          aria-label={t('canvasLabel')}
+          aria-keyshortcuts="ArrowUp ArrowDown ArrowLeft ArrowRight Enter"
+          tabIndex={0}
+          onKeyDown={handleCanvasKeyDown}
+          onBlur={() => {
+            setFocusedId(null)
+            setTooltip(null)
+          }}
+          style={{
+            width: '100%',
+            // Shorter on small screens so the toolbar stays in reach
+            height: fullscreen.isFullscreen ? STYLES.fullscreenCanvas.height : 'clamp(360px, 80vh, 700px)',
+            border: `1px solid ${theme.border}`,
+            borderRadius: '8px',
+            backgroundColor: theme.background,
+          }}
+        />
+        {tooltip && (
+          <div
+            role="tooltip"
+            style={{
+              position: 'absolute',
+              left: tooltip.x,
+              top: tooltip.y,
+              transform: 'translate(-50%, -100%)',
+              maxWidth: '240px',
+              padding: '6px 10px',
+              border: `1px solid ${theme.border}`,
+              borderRadius: '6px',
+              backgroundColor: theme.background,
+              color: theme.text,
+              fontSize: '13px',
+              pointerEvents: 'none',
+              zIndex: 11,
+            }}
+          >
+            {tooltip.lines.map((line, index) => (
+              <div key={index} style={index === 0 ? { fontWeight: 'bold' } : undefined}>{line}</div>
+            ))}
+          </div>
+        )}
+        {popover && (
+          <SkillPopover
+            popover={popover}
+            theme={theme}
+            isCollapsed={collapsed.has(popover.id)}
+            onToggle={() => {
+              toggleCollapsed(popover.id)
+              setPopover(null)
+            }}
+            onClose={() => setPopover(null)}
+            t={t}
+          />
+        )}
+      </div>
+      <ScreenReaderTable
+        caption={t('mirrorCaption')}
+        columns={[t('columnSkill'), t('legendTitle'), t('columnLearned'), t('columnProgress'), t('columnPosts')]}
+        rows={describeSkills(elements, t)}
+      />
+      <Legend title={t('legendTitle')} groups={getLegendGroups(theme, t)} />
+    </div>
   )
 }
+
+export default withPageLifecycle(CytoscapeTree)
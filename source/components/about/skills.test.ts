@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { ElementDefinition } from 'cytoscape'
+import { TreeData, convertToElements, toNodeId, validateTreeData } from './skills'
+
+const nodesOf = (elements: ElementDefinition[]) => elements.filter(element => !element.data.source)
+const edgesOf = (elements: ElementDefinition[]) => elements.filter(element => element.data.source)
+
+describe('convertToElements', () => {
+  it('gives the same skill name under different branches distinct path ids', () => {
+    const data: TreeData = {
+      Frontend: { children: { Testing: { level: 'familiar' } } },
+      Backend: { children: { Testing: { level: 'learning' } } },
+    }
+    const testing = nodesOf(convertToElements(data)).filter(node => node.data.label === 'Testing')
+    expect(testing.map(node => node.data.id)).toEqual(['Frontend/Testing', 'Backend/Testing'])
+    expect(testing.map(node => node.data.level)).toEqual(['familiar', 'learning'])
+  })
+
+  it('keeps names containing the separator apart from nested paths', () => {
+    const data: TreeData = {
+      'DFS/BFS': {},
+      DFS: { children: { BFS: {} } },
+    }
+    const ids = nodesOf(convertToElements(data)).map(node => node.data.id)
+    expect(ids).toEqual(['DFS%2FBFS', 'DFS', 'DFS/BFS'])
+    expect(new Set(ids).size).toBe(ids.length)
+  })
+
+  it('derives edge ids from the endpoints so they stay stable', () => {
+    const data: TreeData = {
+      Algorithms: { children: { Graphs: { children: { Tarjan: {} } }, Sorting: {} } },
+    }
+    const edges = edgesOf(convertToElements(data))
+    expect(edges.map(edge => edge.data)).toEqual([
+      { id: 'Algorithms->Algorithms/Graphs', source: 'Algorithms', target: 'Algorithms/Graphs' },
+      { id: 'Algorithms/Graphs->Algorithms/Graphs/Tarjan', source: 'Algorithms/Graphs', target: 'Algorithms/Graphs/Tarjan' },
+      { id: 'Algorithms->Algorithms/Sorting', source: 'Algorithms', target: 'Algorithms/Sorting' },
+    ])
+
+    // Adding a sibling elsewhere leaves the existing ids as they were
+    const grown = convertToElements({ ...data, Math: { children: { Sorting: {} } } })
+    expect(edgesOf(grown).map(edge => edge.data.id)).toEqual([
+      ...edges.map(edge => edge.data.id),
+      'Math->Math/Sorting',
+    ])
+  })
+
+  it('nests under the given parent path', () => {
+    const [node, edge] = convertToElements({ Tarjan: {} }, ['Algorithms', 'Graphs'])
+    expect(node.data.id).toBe(toNodeId(['Algorithms', 'Graphs', 'Tarjan']))
+    expect(edge.data).toMatchObject({ source: 'Algorithms/Graphs', target: 'Algorithms/Graphs/Tarjan' })
+  })
+
+  it('throws on invalid data instead of drawing part of it', () => {
+    expect(() => convertToElements({ '': {} })).toThrow('root: empty skill name')
+    expect(() => convertToElements([] as unknown as TreeData)).toThrow('expected a map of skills, got array')
+  })
+})
+
+describe('validateTreeData', () => {
+  it('accepts skills with every field unset', () => {
+    expect(validateTreeData({ Algorithms: { children: { Graphs: {} } } })).toEqual([])
+  })
+
+  it('reports empty and blank keys with their parent path', () => {
+    expect(validateTreeData({ '': {}, Algorithms: { children: { '  ': {} } } })).toEqual([
+      'root: empty skill name',
+      'Algorithms: empty skill name',
+    ])
+  })
+
+  it('reports non-object and array values', () => {
+    expect(validateTreeData(null)).toEqual(['root: expected a map of skills, got null'])
+    expect(validateTreeData(['Algorithms'])).toEqual(['root: expected a map of skills, got array'])
+    expect(validateTreeData({ Algorithms: 'Graphs', Math: [], Physics: null, Chemistry: 3 })).toEqual([
+      'Algorithms: expected an object, got string',
+      'Math: expected an object, got array',
+      'Physics: expected an object, got null',
+      'Chemistry: expected an object, got number',
+    ])
+    expect(validateTreeData({ Algorithms: { children: ['Graphs'] } })).toEqual([
+      'Algorithms: expected a map of skills, got array',
+    ])
+  })
+
+  it('reports unknown fields, bad levels and non-text fields', () => {
+    expect(validateTreeData({ Graphs: { level: 'master', learned: 2020, color: 'red' } })).toEqual([
+      'Graphs: level must be one of learning, familiar, proficient, expert',
+      'Graphs: learned must be text',
+      'Graphs: unknown field color',
+    ])
+  })
+})
@@ -0,0 +1,141 @@
+import { ElementDefinition } from 'cytoscape'
+
+// The skill tree's data and its conversion to Cytoscape elements as pure
+// functions: no DOM or React, so skills.yml's shape can be checked headlessly.
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SkillLevel = 'learning' | 'familiar' | 'proficient' | 'expert'
+
+// One skill of source/_data/skills.yml; every field is optional
+export interface SkillNode {
+  description?: string
+  level?: SkillLevel
+  // YYYY-MM or YYYY-MM-DD
+  learned?: string
+  // An emoji or short text shown before the name
+  icon?: string
+  // Extra tag or category names to link, besides the skill's own name
+  topics?: string[]
+  // Filled in by the build from the blog's tags and categories
+  related?: SkillLinks
+  children?: TreeData
+}
+
+export interface SkillLinks {
+  posts: Array<{ title: string, url: string }>
+  tags: Array<{ name: string, url: string }>
+  categories: Array<{ name: string, url: string }>
+}
+
+export interface TreeData {
+  [name: string]: SkillNode
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+export const SKILL_LEVELS: SkillLevel[] = ['learning', 'familiar', 'proficient', 'expert']
+
+const SKILL_FIELDS = ['description', 'level', 'learned', 'icon', 'topics', 'related', 'children']
+const TEXT_FIELDS = ['description', 'learned', 'icon']
+
+// Node ids are the path of keys from the root, so equal names in different branches stay apart.
+// Keys are encoded because names such as "DFS/BFS" contain the separator.
+export const toNodeId = (path: string[]) => path.map(encodeURIComponent).join('/')
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Lists every problem in a map of skills with the path where it occurs; an
+ * empty list means it is valid. The build checks skills.yml the same way, so
+ * this mostly guards data passed in directly.
+ */
+export const validateTreeData = (data: unknown, path: string[] = []): string[] => {
+  const where = path.length > 0 ? path.join(' > ') : 'root'
+  if (!isObject(data)) {
+    return [`${where}: expected a map of skills, got ${Array.isArray(data) ? 'array' : data === null ? 'null' : typeof data}`]
+  }
+
+  const problems: string[] = []
+  for (const [key, skill] of Object.entries(data)) {
+    const at = [...path, key].join(' > ')
+    if (key.trim() === '') {
+      problems.push(`${where}: empty skill name`)
+    } else if (!isObject(skill)) {
+      problems.push(`${at}: expected an object, got ${Array.isArray(skill) ? 'array' : skill === null ? 'null' : typeof skill}`)
+    } else {
+      for (const [field, value] of Object.entries(skill)) {
+        if (!SKILL_FIELDS.includes(field)) {
+          problems.push(`${at}: unknown field ${field}`)
+        } else if (field === 'level' && !SKILL_LEVELS.includes(value as SkillLevel)) {
+          problems.push(`${at}: level must be one of ${SKILL_LEVELS.join(', ')}`)
+        } else if (TEXT_FIELDS.includes(field) && typeof value !== 'string') {
+          problems.push(`${at}: ${field} must be text`)
+        }
+      }
+      if (skill.children !== undefined) {
+        problems.push(...validateTreeData(skill.children, [...path, key]))
+      }
+    }
+  }
+  return problems
+}
+
+export const convertToElements = (data: TreeData, parentPath: string[] = []): ElementDefinition[] => {
+  const problems = validateTreeData(data)
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '))
+  }
+
+  const elements: ElementDefinition[] = []
+
+  // Scores of the skills with a level under `skill`, itself included when it is a leaf
+  const collectScores = (skill: SkillNode): number[] => {
+    const children = Object.values(skill.children ?? {})
+    if (children.length > 0) return children.flatMap(collectScores)
+    return skill.level ? [SKILL_LEVELS.indexOf(skill.level) + 1] : []
+  }
+
+  const traverse = (obj: TreeData, path: string[]) => {
+    const parent = path.length > 0 ? toNodeId(path) : null
+
+    for (const [key, skill] of Object.entries(obj)) {
+      const id = toNodeId([...path, key])
+      const { children, ...details } = skill
+      const scores = children ? collectScores(skill) : []
+      // Percentage of the strongest level, averaged over the category's skills
+      const progress = scores.length > 0
+        ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length / SKILL_LEVELS.length * 100)
+        : undefined
+
+      // Add node
+      elements.push({
+        data: { ...details, id, label: key, display: key, ...(progress !== undefined ? { progress } : {}) },
+      })
+
+      // Add edge if there's a parent; a node has one parent, so the pair is unique
+      if (parent) {
+        elements.push({
+          data: {
+            id: `${parent}->${id}`,
+            source: parent,
+            target: id,
+          },
+        })
+      }
+
+      // Recursively process children
+      if (children && Object.keys(children).length > 0) {
+        traverse(children, [...path, key])
+      }
+    }
+  }
+
+  traverse(data, parentPath)
+  return elements
+}
@@ -0,0 +1,153 @@
+import { Translations } from '../visualizer'
+
+// Every user-facing string of the skill tree, one table per locale.
+// `{name}` placeholders are filled by createTranslator.
+
+const ZH_TW_STRINGS = {
+  // Toolbar
+  search: '搜尋技能',
+  expandAll: '全部展開',
+  collapseAll: '全部收合',
+  layout: '版面',
+  layoutTree: '樹狀',
+  layoutRadial: '放射狀',
+  layoutCose: '力導向',
+  // Levels, keyed by SkillLevel
+  learning: '學習中',
+  familiar: '熟悉',
+  proficient: '熟練',
+  expert: '精通',
+  // Legend
+  legendTitle: '熟練度',
+  legendProgress: '分類的填色：底下技能的平均熟練度',
+  legendSize: '節點越大越熟練',
+  // Node labels and tooltip
+  postCount: '{count} 篇',
+  level: '熟練度：{level}',
+  learned: '開始學習：{date}',
+  progress: '整體進度：{percent}%',
+  // Popover
+  close: '關閉',
+  relatedPosts: '相關文章',
+  tags: '標籤',
+  categories: '分類',
+  expandChildren: '展開子技能',
+  collapseChildren: '收合子技能',
+  // Screen readers and keyboard
+  canvasLabel: '技能樹：↑ ↓ 選擇技能，→ 展開、← 收合，Enter 開啟相關文章',
+  mirrorCaption: '技能樹的所有技能',
+  columnSkill: '技能',
+  columnLearned: '開始學習',
+  columnProgress: '整體進度',
+  columnPosts: '相關文章數',
+  // Static rendering
+  title: '我的技能樹',
+}
+
+export type StringKey = keyof typeof ZH_TW_STRINGS
+
+/**
+ * Labels of the toolbar, legend, tooltip, popover and screen-reader mirror
+ */
+export const STRINGS: Translations<StringKey> = {
+  'zh-TW': ZH_TW_STRINGS,
+  'zh-CN': {
+    search: '搜索技能',
+    expandAll: '全部展开',
+    collapseAll: '全部收起',
+    layout: '布局',
+    layoutTree: '树状',
+    layoutRadial: '放射状',
+    layoutCose: '力导向',
+    learning: '学习中',
+    familiar: '熟悉',
+    proficient: '熟练',
+    expert: '精通',
+    legendTitle: '熟练度',
+    legendProgress: '分类的填色：下属技能的平均熟练度',
+    legendSize: '节点越大越熟练',
+    postCount: '{count} 篇',
+    level: '熟练度：{level}',
+    learned: '开始学习：{date}',
+    progress: '整体进度：{percent}%',
+    close: '关闭',
+    relatedPosts: '相关文章',
+    tags: '标签',
+    categories: '分类',
+    expandChildren: '展开子技能',
+    collapseChildren: '收起子技能',
+    canvasLabel: '技能树：↑ ↓ 选择技能，→ 展开、← 收起，Enter 打开相关文章',
+    mirrorCaption: '技能树的所有技能',
+    columnSkill: '技能',
+    columnLearned: '开始学习',
+    columnProgress: '整体进度',
+    columnPosts: '相关文章数',
+    title: '我的技能树',
+  },
+  en: {
+    search: 'Search skills',
+    expandAll: 'Expand all',
+    collapseAll: 'Collapse all',
+    layout: 'Layout',
+    layoutTree: 'Tree',
+    layoutRadial: 'Radial',
+    layoutCose: 'Force-directed',
+    learning: 'Learning',
+    familiar: 'Familiar',
+    proficient: 'Proficient',
+    expert: 'Expert',
+    legendTitle: 'Proficiency',
+    legendProgress: 'Category fill: average proficiency of its skills',
+    legendSize: 'Larger nodes are more proficient',
+    postCount: '{count} posts',
+    level: 'Proficiency: {level}',
+    learned: 'Learning since: {date}',
+    progress: 'Overall progress: {percent}%',
+    close: 'Close',
+    relatedPosts: 'Related posts',
+    tags: 'Tags',
+    categories: 'Categories',
+    expandChildren: 'Expand sub-skills',
+    collapseChildren: 'Collapse sub-skills',
+    canvasLabel: 'Skill tree: up and down arrows choose a skill, right expands, left collapses, Enter opens related posts',
+    mirrorCaption: 'Every skill in the skill tree',
+    columnSkill: 'Skill',
+    columnLearned: 'Learning since',
+    columnProgress: 'Overall progress',
+    columnPosts: 'Related posts',
+    title: 'My skill tree',
+  },
+  ja: {
+    search: 'スキルを検索',
+    expandAll: 'すべて展開',
+    collapseAll: 'すべて折りたたむ',
+    layout: 'レイアウト',
+    layoutTree: 'ツリー',
+    layoutRadial: '放射状',
+    layoutCose: '力指向',
+    learning: '学習中',
+    familiar: '慣れている',
+    proficient: '熟練',
+    expert: 'エキスパート',
+    legendTitle: '習熟度',
+    legendProgress: 'カテゴリの塗り：配下スキルの平均習熟度',
+    legendSize: 'ノードが大きいほど習熟している',
+    postCount: '{count} 件',
+    level: '習熟度：{level}',
+    learned: '学習開始：{date}',
+    progress: '全体の進捗：{percent}%',
+    close: '閉じる',
+    relatedPosts: '関連記事',
+    tags: 'タグ',
+    categories: 'カテゴリ',
+    expandChildren: '子スキルを展開',
+    collapseChildren: '子スキルを折りたたむ',
+    canvasLabel: 'スキルツリー：上下の矢印キーでスキルを選び、右で展開、左で折りたたみ、Enter で関連記事を開く',
+    mirrorCaption: 'スキルツリーのすべてのスキル',
+    columnSkill: 'スキル',
+    columnLearned: '学習開始',
+    columnProgress: '全体の進捗',
+    columnPosts: '関連記事数',
+    title: 'スキルツリー',
+  },
+}
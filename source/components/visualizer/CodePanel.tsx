@@ -0,0 +1,29 @@
+import React, { CSSProperties, ReactNode } from 'react'
+import { STYLES } from './styles'
+
+type CodePanelProps = {
+  lines: string[]
+  // 1-based line to highlight
+  activeLine: number | null
+  // Side panel next to the listing, e.g. the call stack
+  children?: ReactNode
+}
+
+export default function CodePanel({ lines, activeLine, children }: CodePanelProps) {
+  return (
+    <div style={STYLES.codeRow}>
+      <pre style={STYLES.code}>
+        {lines.map((text, index) => (
+          <div
+            key={index}
+            style={(index + 1 === activeLine ? { ...STYLES.codeLine, ...STYLES.codeLineActive } : STYLES.codeLine) as CSSProperties}
+          >
+            <span style={STYLES.codeLineNumber}>{index + 1}</span>
+            {text}
+          </div>
+        ))}
+      </pre>
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import React, { CSSProperties, ReactNode } from 'react'
+import { createTranslator } from './i18n'
+import { STYLES } from './styles'
+import { Locale, Stepper, Translations } from './types'
+import { PLAY_SPEEDS } from './useStepper'
+
+type ControlsBarProps = {
+  stepper: Stepper
+  locale: Locale
+  // Visualizer-specific buttons, shown after the stepping buttons
+  children?: ReactNode
+}
+
+const STRINGS: Translations<'prev' | 'next' | 'play' | 'pause' | 'reset' | 'end' | 'timeline' | 'progress' | 'speed'> = {
+  'zh-TW': {
+    prev: '上一步',
+    next: '下一步',
+    play: '播放',
+    pause: '暫停',
+    reset: '重置',
+    end: '跳到結尾',
+    timeline: '時間軸',
+    progress: '步驟 {step} / {total}',
+    speed: '速度'
+  },
+  'zh-CN': {
+    prev: '上一步',
+    next: '下一步',
+    play: '播放',
+    pause: '暂停',
+    reset: '重置',
+    end: '跳到结尾',
+    timeline: '时间轴',
+    progress: '步骤 {step} / {total}',
+    speed: '速度'
+  },
+  en: {
+    prev: 'Previous',
+    next: 'Next',
+    play: 'Play',
+    pause: 'Pause',
+    reset: 'Reset',
+    end: 'Jump to end',
+    timeline: 'Timeline',
+    progress: 'Step {step} / {total}',
+    speed: 'Speed'
+  },
+  ja: {
+    prev: '前へ',
+    next: '次へ',
+    play: '再生',
+    pause: '一時停止',
+    reset: 'リセット',
+    end: '最後へ',
+    timeline: 'タイムライン',
+    progress: 'ステップ {step} / {total}',
+    speed: '速度'
+  }
+}
+
+/**
+ * Previous / next / play / reset buttons, a timeline scrubber and the speed picker
+ */
+export default function ControlsBar({ stepper, locale, children }: ControlsBarProps) {
+  const { step, totalSteps, isComplete, isPlaying, speed } = stepper
+  const t = createTranslator(STRINGS[locale])
+
+  return (
+    <div style={STYLES.controls}>
+      <button onClick={stepper.prev} disabled={step === 0} aria-keyshortcuts="ArrowLeft">
+        {t('prev')}
+      </button>
+      <button onClick={stepper.next} disabled={isComplete} aria-keyshortcuts="ArrowRight" style={STYLES.button}>
+        {t('next')}
+      </button>
+      <button onClick={stepper.togglePlay} aria-pressed={isPlaying} aria-keyshortcuts="Space" style={STYLES.button}>
+        {isPlaying ? t('pause') : t('play')}
+      </button>
+      <button onClick={stepper.reset} aria-keyshortcuts="Home" style={STYLES.button}>
+        {t('reset')}
+      </button>
+      <button onClick={() => stepper.seek(totalSteps)} disabled={isComplete} aria-keyshortcuts="End" style={STYLES.button}>
+        {t('end')}
+      </button>
+      {children}
+      <div style={STYLES.timeline}>
+        <input
+          type="range"
+          min={0}
+          max={totalSteps}
+          value={step}
+          aria-label={t('timeline')}
+          aria-valuetext={t('progress', { step, total: totalSteps })}
+          onChange={e => stepper.seek(Number(e.target.value))}
+          style={{ flex: 1 } as CSSProperties}
+        />
+        <span aria-hidden="true">{t('progress', { step, total: totalSteps })}</span>
+        <label>
+          {t('speed')}{' '}
+          <select value={speed} onChange={e => stepper.setSpeed(Number(e.target.value))}>
+            {PLAY_SPEEDS.map(value => (
+              <option key={value} value={value}>{value}x</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import React, { CSSProperties, MutableRefObject, useEffect, useRef } from 'react'
+import cytoscape, { Core, ElementDefinition, LayoutOptions, StylesheetStyle } from 'cytoscape'
+import { adoptStaticGraph, useInView } from './lazy'
+import { applyVisualState } from './replay'
+import { STYLES } from './styles'
+import { VisualState } from './types'
+import { useFitOnResize } from './viewport'
+
+type CytoscapeCanvasProps = {
+  // Shared with the owner so handlers and exports can reach the instance
+  cyRef: MutableRefObject<Core | null>
+  elements: ElementDefinition[]
+  stylesheet: StylesheetStyle[]
+  layout: LayoutOptions
+  visualState: VisualState
+  // Called after every (re)creation, e.g. to register event handlers
+  onInit?: (cy: Core) => void
+  // Called right before the instance is destroyed
+  onDestroy?: (cy: Core) => void
+  // Trades rendering quality for speed on large graphs
+  performance?: boolean
+  // Describes the canvas to screen readers, which cannot read the graph itself
+  ariaLabel?: string
+  style?: CSSProperties
+}
+
+/**
+ * Owns one Cytoscape instance. New `elements` rebuild the graph, while a new
+ * `stylesheet` or `layout` is applied to the existing instance so positions
+ * and the viewport survive. The visual state is re-applied on every change.
+ * Cytoscape only starts once the canvas scrolls near the viewport; until then
+ * it shows the static SVG the build rendered, if any. The graph is fitted
+ * again whenever the container changes size.
+ */
+export default function CytoscapeCanvas({
+  cyRef,
+  elements,
+  stylesheet,
+  layout,
+  visualState,
+  onInit,
+  onDestroy,
+  performance = false,
+  ariaLabel,
+  style
+}: CytoscapeCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const inView = useInView(containerRef)
+  const fallbackRef = useRef<HTMLElement | null>(null)
+  // Creation reads the latest props through refs instead of re-running on them
+  const latestRef = useRef({ stylesheet, layout, visualState, onInit, onDestroy, performance })
+  latestRef.current = { stylesheet, layout, visualState, onInit, onDestroy, performance }
+  // The state currently drawn, so updates only touch what changed
+  const appliedRef = useRef<VisualState | null>(null)
+  // The layout the instance was created with, which the layout effect need not run again
+  const laidOutRef = useRef<LayoutOptions | null>(null)
+  useFitOnResize(containerRef, cyRef)
+
+  // Show the build's rendering of the graph until Cytoscape starts
+  useEffect(() => {
+    if (containerRef.current) {
+      fallbackRef.current = adoptStaticGraph(containerRef.current)
+    }
+  }, [])
+
+  // Initialize Cytoscape once the container is in view
+  useEffect(() => {
+    if (!inView || !containerRef.current) return
+
+    try {
+      fallbackRef.current?.remove()
+      fallbackRef.current = null
+      const latest = latestRef.current
+      const cy = cytoscape({
+        container: containerRef.current,
+        elements,
+        style: latest.stylesheet,
+        layout: latest.layout,
+        ...(latest.performance
+          ? { hideEdgesOnViewport: true, textureOnViewport: true, pixelRatio: 1 }
+          : {})
+      })
+      cyRef.current = cy
+      laidOutRef.current = latest.layout
+      applyVisualState(cy, latest.visualState)
+      appliedRef.current = latest.visualState
+      latest.onInit?.(cy)
+    } catch (error) {
+      console.error('Failed to initialize Cytoscape:', error)
+    }
+
+    return () => {
+      if (cyRef.current) {
+        latestRef.current.onDestroy?.(cyRef.current)
+        cyRef.current.destroy()
+        cyRef.current = null
+        appliedRef.current = null
+      }
+    }
+  }, [inView, elements])
+
+  // Restyle in place, e.g. when the palette or the edge direction changes
+  useEffect(() => {
+    if (cyRef.current) {
+      cyRef.current.style(stylesheet)
+    }
+  }, [stylesheet])
+
+  useEffect(() => {
+    if (cyRef.current && layout !== laidOutRef.current) {
+      laidOutRef.current = layout
+      cyRef.current.layout(layout).run()
+    }
+  }, [layout])
+
+  // Render the derived state whenever the step or the events change
+  useEffect(() => {
+    if (cyRef.current) {
+      applyVisualState(cyRef.current, visualState, appliedRef.current)
+      appliedRef.current = visualState
+    }
+  }, [visualState])
+
+  return (
+    <div
+      ref={containerRef}
+      role={ariaLabel ? 'img' : undefined}
+      aria-label={ariaLabel}
+      style={{ ...STYLES.container, ...style } as CSSProperties}
+    />
+  )
+}
@@ -0,0 +1,12 @@
+import React from 'react'
+
+// :focus-visible cannot be set through inline styles, so one rule covers
+// every element inside a root marked with data-visualizer
+const FOCUS_RULE = '[data-visualizer]:focus-visible, [data-visualizer] :focus-visible { outline: 2px solid #f97316; outline-offset: 2px; }'
+
+/**
+ * Draws a visible outline around whatever the keyboard focuses in a visualizer
+ */
+export default function FocusRing() {
+  return <style>{FOCUS_RULE}</style>
+}
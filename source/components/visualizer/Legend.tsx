@@ -0,0 +1,79 @@
+import React, { CSSProperties, ReactNode } from 'react'
+import { EDGE_DASHES } from './palette'
+import { STYLES } from './styles'
+import { LegendItem } from './types'
+
+type LegendProps = {
+  title: string
+  // Each group is rendered as its own row
+  groups: LegendItem[][]
+  // Extra controls below the groups, e.g. a palette picker
+  children?: ReactNode
+}
+
+/**
+ * A patterned edge swatch; the dashes are halved to fit the 20px sample
+ */
+function PatternSwatch({ item, color }: { item: LegendItem, color: string }) {
+  const thickness = item.thickness ?? 3
+  const dashes = EDGE_DASHES[item.pattern ?? 'solid'].map(length => length / 2)
+  return (
+    <svg width={20} height={thickness} aria-hidden="true">
+      <line
+        x1={0}
+        y1={thickness / 2}
+        x2={20}
+        y2={thickness / 2}
+        stroke={color}
+        strokeWidth={thickness}
+        strokeDasharray={dashes.join(' ')}
+      />
+    </svg>
+  )
+}
+
+function LegendSwatch({ item }: { item: LegendItem }) {
+  if (item.kind === 'text') return null
+
+  const colors = item.colors ?? (item.color ? [item.color] : [])
+  return (
+    <>
+      {colors.map(color =>
+        item.kind === 'edge'
+          ? item.pattern && item.pattern !== 'solid'
+            ? <PatternSwatch key={color} item={item} color={color} />
+            : <div key={color} style={{ ...STYLES.legendColor, height: item.thickness ?? 3, backgroundColor: color } as CSSProperties} />
+          : (
+            <div
+              key={color}
+              style={{
+                ...STYLES.legendNode,
+                borderColor: color,
+                borderStyle: item.dashed ? 'dashed' : 'solid',
+                backgroundColor: item.colors ? color : undefined
+              } as CSSProperties}
+            />
+          )
+      )}
+    </>
+  )
+}
+
+export default function Legend({ title, groups, children }: LegendProps) {
+  return (
+    <div style={STYLES.legend}>
+      <div style={STYLES.legendTitle}>{title}</div>
+      {groups.filter(items => items.length > 0).map((items, index) => (
+        <div key={index} style={(index === 0 ? STYLES.legendItems : { ...STYLES.legendItems, marginTop: 8 }) as CSSProperties}>
+          {items.map(item => (
+            <div key={item.label} style={STYLES.legendItem}>
+              <LegendSwatch item={item} />
+              <span>{item.label}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+      {children && <div style={{ ...STYLES.legendItems, marginTop: 8 } as CSSProperties}>{children}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import React, { CSSProperties, useEffect, useRef } from 'react'
+import { formatMessage } from './replay'
+import { STYLES } from './styles'
+import { MessageTable, VisualizerEvent } from './types'
+
+// Older entries are dropped from the history so long traces stay responsive
+const HISTORY_LIMIT = 200
+
+type NarrationProps = {
+  events: VisualizerEvent[]
+  step: number
+  onSeek: (step: number) => void
+  messages: MessageTable
+  // Shown before the first step
+  placeholder: string
+}
+
+/**
+ * The current event's message above a clickable history of the earlier ones
+ */
+export default function Narration({ events, step, onSeek, messages, placeholder }: NarrationProps) {
+  const historyRef = useRef<HTMLOListElement>(null)
+
+  // Keep the newest entry in view without scrolling the page
+  useEffect(() => {
+    if (historyRef.current) {
+      historyRef.current.scrollTop = historyRef.current.scrollHeight
+    }
+  }, [step])
+
+  const first = Math.max(0, step - HISTORY_LIMIT)
+
+  return (
+    <div style={STYLES.narration}>
+      <div role="status" aria-live="polite" style={STYLES.narrationCurrent}>
+        {step === 0 ? placeholder : formatMessage(events[step - 1].message, messages)}
+      </div>
+      <ol ref={historyRef} start={first + 1} style={STYLES.narrationHistory}>
+        {events.slice(first, step).map((event, offset) => {
+          const index = first + offset
+          return (
+            <li key={index} style={STYLES.narrationItem}>
+              {/* A button so the history can be reached and replayed from the keyboard */}
+              <button
+                type="button"
+                onClick={() => onSeek(index + 1)}
+                aria-current={index === step - 1 ? 'step' : undefined}
+                style={(index === step - 1 ? { ...STYLES.narrationButton, fontWeight: 'bold' } : STYLES.narrationButton) as CSSProperties}
+              >
+                {formatMessage(event.message, messages)}
+              </button>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
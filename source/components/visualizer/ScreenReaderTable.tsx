@@ -0,0 +1,35 @@
+import React from 'react'
+import { STYLES } from './styles'
+
+type ScreenReaderTableProps = {
+  caption: string
+  columns: string[]
+  rows: { key: string, cells: string[] }[]
+}
+
+/**
+ * A visually hidden table that mirrors what the canvas shows, so screen
+ * readers can go through the graph state cell by cell
+ */
+export default function ScreenReaderTable({ caption, columns, rows }: ScreenReaderTableProps) {
+  return (
+    <table style={STYLES.visuallyHidden}>
+      <caption>{caption}</caption>
+      <thead>
+        <tr>
+          {columns.map(column => <th key={column} scope="col">{column}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key}>
+            {row.cells.map((cell, index) => index === 0
+              ? <th key={index} scope="row">{cell}</th>
+              : <td key={index}>{cell}</td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
@@ -0,0 +1,67 @@
+import React, { MutableRefObject } from 'react'
+import { Core } from 'cytoscape'
+import { createTranslator } from './i18n'
+import { STYLES } from './styles'
+import { Fullscreen, Locale, Translations } from './types'
+import { fitGraph, zoomGraph, zoomOutGraph } from './viewport'
+
+type ViewControlsProps = {
+  cyRef: MutableRefObject<Core | null>
+  fullscreen: Fullscreen
+  locale: Locale
+}
+
+const STRINGS: Translations<'zoomIn' | 'zoomOut' | 'fit' | 'fullscreen' | 'exitFullscreen'> = {
+  'zh-TW': {
+    zoomIn: '放大',
+    zoomOut: '縮小',
+    fit: '符合畫面',
+    fullscreen: '全螢幕',
+    exitFullscreen: '離開全螢幕'
+  },
+  'zh-CN': {
+    zoomIn: '放大',
+    zoomOut: '缩小',
+    fit: '适应画面',
+    fullscreen: '全屏',
+    exitFullscreen: '退出全屏'
+  },
+  en: {
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    fit: 'Fit',
+    fullscreen: 'Fullscreen',
+    exitFullscreen: 'Exit fullscreen'
+  },
+  ja: {
+    zoomIn: '拡大',
+    zoomOut: '縮小',
+    fit: '全体を表示',
+    fullscreen: '全画面',
+    exitFullscreen: '全画面を終了'
+  }
+}
+
+/**
+ * Zoom in / zoom out / fit buttons and the fullscreen toggle, where the browser supports it
+ */
+export default function ViewControls({ cyRef, fullscreen, locale }: ViewControlsProps) {
+  const t = createTranslator(STRINGS[locale])
+  // The instance is created lazily and replaced on new elements, so read it per click
+  const withGraph = (action: (cy: Core) => void) => () => {
+    if (cyRef.current) action(cyRef.current)
+  }
+
+  return (
+    <>
+      <button onClick={withGraph(zoomGraph)} aria-label={t('zoomIn')} title={t('zoomIn')} style={STYLES.button}>+</button>
+      <button onClick={withGraph(zoomOutGraph)} aria-label={t('zoomOut')} title={t('zoomOut')} style={STYLES.button}>−</button>
+      <button onClick={withGraph(fitGraph)} style={STYLES.button}>{t('fit')}</button>
+      {fullscreen.isSupported && (
+        <button onClick={fullscreen.toggle} aria-pressed={fullscreen.isFullscreen} style={STYLES.button}>
+          {fullscreen.isFullscreen ? t('exitFullscreen') : t('fullscreen')}
+        </button>
+      )}
+    </>
+  )
+}
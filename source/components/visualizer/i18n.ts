@@ -0,0 +1,49 @@
+import { RefObject, useEffect, useState } from 'react'
+import { formatMessage } from './replay'
+import { Locale, Message } from './types'
+
+export const DEFAULT_LOCALE: Locale = 'zh-TW'
+
+/**
+ * Maps a language tag such as `en-US`, `zh-Hans` or `ja-JP` onto a supported
+ * locale; anything else falls back to the site's own zh-TW
+ */
+export function resolveLocale(lang: string | null | undefined): Locale {
+  const tag = (lang ?? '').toLowerCase()
+  if (tag.startsWith('en')) return 'en'
+  if (tag.startsWith('ja')) return 'ja'
+  if (tag === 'zh-cn' || tag === 'zh-sg' || tag.startsWith('zh-hans')) return 'zh-CN'
+  return DEFAULT_LOCALE
+}
+
+/**
+ * The language of the nearest `lang` attribute around `element`, so a
+ * translated post can wrap a visualizer in `<div lang="en">`; without one
+ * this is the page's <html lang>
+ */
+export function readPageLocale(element?: Element | null): Locale {
+  if (typeof document === 'undefined') return DEFAULT_LOCALE
+  const scope = element?.closest('[lang]') ?? document.documentElement
+  return resolveLocale(scope.getAttribute('lang'))
+}
+
+/**
+ * The locale to render in: `override` when given, otherwise the page
+ * language around `rootRef` once it is mounted
+ */
+export function useLocale(rootRef: RefObject<Element | null>, override?: Locale): Locale {
+  const [pageLocale, setPageLocale] = useState<Locale>(() => readPageLocale())
+
+  useEffect(() => {
+    setPageLocale(readPageLocale(rootRef.current))
+  }, [])
+
+  return override ?? pageLocale
+}
+
+/**
+ * Looks `key` up in one language's table and fills its `{name}` placeholders
+ */
+export function createTranslator<TKey extends string>(table: Record<TKey, string>) {
+  return (key: TKey, params: Message['params'] = {}): string => formatMessage({ key, params }, table)
+}
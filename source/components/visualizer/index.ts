@@ -0,0 +1,40 @@
+// Shared building blocks for the step-by-step algorithm visualizers:
+// an algorithm emits VisualizerEvents, a pure replay turns a prefix of them
+// into a VisualState, and CytoscapeCanvas renders that state.
+
+export type {
+  BasePalette,
+  EdgePattern,
+  LegendItem,
+  Fullscreen,
+  Locale,
+  Message,
+  MessageTable,
+  Stepper,
+  ThemeMode,
+  Translations,
+  VisualState,
+  VisualizerEvent
+} from './types'
+
+export { BORDER, STYLES } from './styles'
+export { BASE_PALETTES, EDGE_DASHES, createBaseStylesheet, createEdgeHighlight } from './palette'
+export { readThemeMode, useThemeMode } from './theme'
+export { DEFAULT_LOCALE, createTranslator, readPageLocale, resolveLocale, useLocale } from './i18n'
+export { applyVisualState, createClassTracker, formatMessage } from './replay'
+export { PLAY_SPEEDS, isFormField, useStepper } from './useStepper'
+export { createRandom } from './random'
+export { buildAnimatedSvg, downloadBlob, downloadUrl, renderSnapshot } from './snapshot'
+export { renderGraphSvg } from './staticGraph'
+export type { StaticGraphContext, StaticGraphOptions } from './staticGraph'
+export { STATIC_CONTENT_ATTRIBUTE, STATIC_GRAPH_ATTRIBUTE, adoptStaticGraph, removeStaticContent, useInView } from './lazy'
+export { FIT_PADDING, fitGraph, useFitOnResize, useFullscreen, zoomGraph, zoomOutGraph } from './viewport'
+export { withPageLifecycle } from './pjax'
+export { default as CytoscapeCanvas } from './CytoscapeCanvas'
+export { default as ControlsBar } from './ControlsBar'
+export { default as ViewControls } from './ViewControls'
+export { default as Legend } from './Legend'
+export { default as Narration } from './Narration'
+export { default as CodePanel } from './CodePanel'
+export { default as ScreenReaderTable } from './ScreenReaderTable'
+export { default as FocusRing } from './FocusRing'
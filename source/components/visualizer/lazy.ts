@@ -0,0 +1,57 @@
+import { RefObject, useEffect, useState } from 'react'
+
+// Marks the static SVG the build renders in front of a component (scripts/static-graphs.js)
+export const STATIC_GRAPH_ATTRIBUTE = 'data-static-graph'
+// Marks the static HTML the build renders after a component, such as a table
+export const STATIC_CONTENT_ATTRIBUTE = 'data-static-content'
+
+/**
+ * Becomes true once the element comes near the viewport, and stays true
+ */
+export function useInView(ref: RefObject<Element | null>, rootMargin: string = '200px'): boolean {
+  const [inView, setInView] = useState<boolean>(false)
+
+  useEffect(() => {
+    const element = ref.current
+    if (inView || !element) return
+    if (typeof IntersectionObserver === 'undefined') {
+      setInView(true)
+      return
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setInView(true)
+        observer.disconnect()
+      }
+    }, { rootMargin })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [ref, inView, rootMargin])
+
+  return inView
+}
+
+/**
+ * Moves the build's static SVG of the enclosing component into `container`,
+ * where it stands in for the graph until Cytoscape starts. Returns it so the
+ * caller can remove it then.
+ */
+export function adoptStaticGraph(container: HTMLElement): HTMLElement | null {
+  const fallback = container.closest('[data-mdx-component]')?.previousElementSibling
+  if (!(fallback instanceof HTMLElement) || !fallback.hasAttribute(STATIC_GRAPH_ATTRIBUTE)) return null
+
+  fallback.style.height = '100%'
+  fallback.querySelector('svg')?.setAttribute('height', '100%')
+  container.appendChild(fallback)
+  return fallback
+}
+
+/**
+ * Removes the build's static HTML after the enclosing component, which the
+ * mounted component renders live
+ */
+export function removeStaticContent(element: HTMLElement): void {
+  const fallback = element.closest('[data-mdx-component]')?.nextElementSibling
+  if (fallback?.hasAttribute(STATIC_CONTENT_ATTRIBUTE)) fallback.remove()
+}
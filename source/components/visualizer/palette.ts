@@ -0,0 +1,130 @@
+import { StylesheetStyle } from 'cytoscape'
+import { BasePalette, EdgePattern, ThemeMode } from './types'
+
+const LIGHT_BASE_PALETTE: BasePalette = {
+  node: '#60a5fa',
+  nodeVisiting: '#fbbf24',
+  nodeCurrent: '#f97316',
+  nodeVisited: '#9ca3af',
+  edgeDefault: '#9ca3af',
+  label: '#1f2937',
+  labelBackground: '#ffffff'
+}
+
+// One base palette per site theme mode; visualizers spread their own colors on top
+export const BASE_PALETTES: Record<ThemeMode, BasePalette> = {
+  light: LIGHT_BASE_PALETTE,
+  sunset: {
+    ...LIGHT_BASE_PALETTE,
+    edgeDefault: '#c4a484',
+    label: '#8b4513',
+    labelBackground: '#fff5e6'
+  },
+  dark: {
+    node: '#3b82f6',
+    nodeVisiting: '#d97706',
+    nodeCurrent: '#ea580c',
+    nodeVisited: '#6b7280',
+    edgeDefault: '#6b7280',
+    label: '#afff2e',
+    labelBackground: '#303030'
+  }
+}
+
+/**
+ * Cytoscape styles shared by every visualizer: labelled nodes that go
+ * visiting → visited with a highlighted current node, and labelled edges.
+ * Visualizers append their own selectors after these.
+ */
+export function createBaseStylesheet(palette: BasePalette, isDirected: boolean): StylesheetStyle[] {
+  return [
+    {
+      selector: 'node',
+      style: {
+        'background-color': palette.node,
+        'label': 'data(label)',
+        'font-size': 16,
+        'color': palette.label,
+        'text-wrap': 'wrap' as const,
+        'text-valign': 'top' as const,
+        'text-halign': 'center' as const
+      }
+    },
+    {
+      selector: 'node.visiting',
+      style: {
+        'background-color': palette.nodeVisiting
+      }
+    },
+    {
+      selector: 'node.visited',
+      style: {
+        'background-color': palette.nodeVisited
+      }
+    },
+    {
+      selector: 'node.current',
+      style: {
+        'background-color': palette.nodeCurrent,
+        'border-width': 3,
+        'border-color': '#ea580c'
+      }
+    },
+    {
+      selector: ':selected',
+      style: {
+        'overlay-color': palette.nodeCurrent,
+        'overlay-opacity': 0.25
+      }
+    },
+    {
+      selector: 'edge',
+      style: {
+        'line-color': palette.edgeDefault,
+        'target-arrow-shape': isDirected ? 'triangle' as const : 'none' as const,
+        // Bezier fans parallel edges out into separate curves and draws self-loops
+        'curve-style': 'bezier' as const,
+        'target-arrow-color': palette.edgeDefault,
+        'width': 2,
+        'label': 'data(label)',
+        'font-size': 12,
+        'color': palette.label,
+        'text-background-color': palette.labelBackground,
+        'text-background-opacity': 0.8,
+        'text-background-padding': '2px'
+      }
+    }
+  ]
+}
+
+// Dash lengths in pixels for a 4px edge; Cytoscape's own `dotted` is too fine to see at that width
+export const EDGE_DASHES: Record<EdgePattern, number[]> = {
+  'solid': [],
+  'dashed': [12, 6],
+  'dotted': [4, 4],
+  'dash-dot': [12, 4, 4, 4]
+}
+
+/**
+ * A thick colored edge style, used for edge classes such as tree or back edges.
+ * A `pattern` other than solid keeps the classes apart without color.
+ */
+export function createEdgeHighlight(
+  selector: string,
+  color: string,
+  isDirected: boolean,
+  pattern: EdgePattern = 'solid'
+): StylesheetStyle {
+  return {
+    selector,
+    style: {
+      'line-color': color,
+      'target-arrow-color': color,
+      'target-arrow-shape': isDirected ? 'triangle' as const : 'none' as const,
+      'width': 4,
+      ...(pattern === 'solid'
+        ? { 'line-style': 'solid' as const }
+        : { 'line-style': 'dashed' as const, 'line-dash-pattern': EDGE_DASHES[pattern] })
+    }
+  }
+}
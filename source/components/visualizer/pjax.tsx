@@ -0,0 +1,94 @@
+import React, { ComponentType, useEffect, useRef, useState } from 'react'
+import { Root, createRoot } from 'react-dom/client'
+
+// The Yun theme swaps <main> through PJAX (themes/yun/source/js/pjax.js)
+// instead of loading pages. hexo-renderer-mdx hydrates a page from a module
+// script, which the browser runs only on the page's first visit and which
+// never unmounts what it rendered. Wrapped components therefore unmount once
+// a swap takes them off the page, and remount when a swap brings them back;
+// a page whose script never ran gets it imported after the swap.
+
+// Fired on document once the new page is in place
+const PJAX_SUCCESS = 'pjax:success'
+const PLACEHOLDER_ATTRIBUTE = 'data-mdx-component'
+// hexo-renderer-mdx's per-page bundle, /assets/mdx-hydrate-<hash>.js
+const HYDRATE_SCRIPT_SELECTOR = 'script[type="module"][src*="/mdx-hydrate-"]'
+
+// Placeholder id -> component, for everything this page's script rendered
+const remountable = new Map<string, ComponentType>()
+
+// Placeholder -> the root remountPlaceholders created in it
+const roots = new Map<Element, Root>()
+
+function remountPlaceholders() {
+  // Unmounting runs every cleanup: Cytoscape, timers, observers and listeners
+  roots.forEach((root, placeholder) => {
+    if (placeholder.isConnected) return
+    root.unmount()
+    roots.delete(placeholder)
+  })
+
+  remountable.forEach((Component, id) => {
+    const placeholder = document.querySelector(`[${PLACEHOLDER_ATTRIBUTE}="${id}"]`)
+    // A first visit's own script hydrates its placeholders
+    if (placeholder && !placeholder.hasChildNodes()) {
+      const root = createRoot(placeholder)
+      root.render(<Component />)
+      roots.set(placeholder, root)
+    }
+  })
+}
+
+/**
+ * Runs the hydration scripts of the new page. The browser evaluates a module
+ * once per URL, so a script that already ran, here or from another bundle's
+ * listener, is skipped and its components are left to remountPlaceholders.
+ */
+function importHydrateScripts() {
+  document.querySelectorAll<HTMLScriptElement>(HYDRATE_SCRIPT_SELECTOR).forEach(script => {
+    import(script.src).catch(error => console.error('Failed to load hydration script:', error))
+  })
+}
+
+// The build also loads components in Node to pre-render them (scripts/static-graphs.js)
+if (typeof document !== 'undefined') {
+  document.addEventListener(PJAX_SUCCESS, remountPlaceholders)
+  document.addEventListener(PJAX_SUCCESS, importHydrateScripts)
+}
+
+/**
+ * Wraps a page's default export so it survives PJAX navigation. Remounted
+ * components get no props, like hydrated ones.
+ */
+export function withPageLifecycle<P extends object>(Component: ComponentType<P>): ComponentType<P> {
+  function PageLifecycle(props: P) {
+    const markerRef = useRef<HTMLDivElement>(null)
+    const [isAttached, setIsAttached] = useState<boolean>(true)
+
+    useEffect(() => {
+      const placeholder = markerRef.current?.closest(`[${PLACEHOLDER_ATTRIBUTE}]`)
+      const id = placeholder?.getAttribute(PLACEHOLDER_ATTRIBUTE)
+      if (id) remountable.set(id, PageLifecycle as ComponentType)
+
+      // The hydrated root can't be unmounted from here, so rendering nothing
+      // runs every cleanup instead; remounts get their own root
+      const handleSwap = () => {
+        if (markerRef.current?.isConnected) return
+        document.removeEventListener(PJAX_SUCCESS, handleSwap)
+        setIsAttached(false)
+      }
+      document.addEventListener(PJAX_SUCCESS, handleSwap)
+      return () => document.removeEventListener(PJAX_SUCCESS, handleSwap)
+    }, [])
+
+    if (!isAttached) return null
+    return (
+      <div ref={markerRef} style={{ display: 'contents' }}>
+        <Component {...props} />
+      </div>
+    )
+  }
+
+  PageLifecycle.displayName = `withPageLifecycle(${Component.displayName || Component.name})`
+  return PageLifecycle
+}
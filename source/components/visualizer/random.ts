@@ -0,0 +1,13 @@
+/**
+ * Small deterministic PRNG (mulberry32) so a seed always gives the same
+ * sequence, for seeded traversal orders and reproducible random tests
+ */
+export function createRandom(seed: number): () => number {
+  let t = seed >>> 0
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0
+    let r = Math.imul(t ^ (t >>> 15), 1 | t)
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
+  }
+}
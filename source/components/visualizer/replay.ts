@@ -0,0 +1,80 @@
+import { Core } from 'cytoscape'
+import { Message, MessageTable, VisualState } from './types'
+
+/**
+ * Fills a message template from its params; unknown keys fall back to the key itself
+ */
+export function formatMessage(message: Message | undefined, table: MessageTable): string {
+  if (!message) return ''
+  const template = table[message.key] ?? message.key
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    name in message.params ? String(message.params[name]) : match
+  )
+}
+
+/**
+ * Collects element classes while replaying events, then hands them out as
+ * the plain lists VisualState stores
+ */
+export function createClassTracker() {
+  const classes: Record<string, Set<string>> = {}
+
+  const classesOf = (id: string) => {
+    if (!classes[id]) classes[id] = new Set<string>()
+    return classes[id]
+  }
+
+  return {
+    add: (id: string, name: string) => {
+      classesOf(id).add(name)
+    },
+    remove: (id: string, name: string) => {
+      classesOf(id).delete(name)
+    },
+    toLists: (): Record<string, string[]> => {
+      const lists: Record<string, string[]> = {}
+      for (const [id, set] of Object.entries(classes)) {
+        lists[id] = Array.from(set)
+      }
+      return lists
+    }
+  }
+}
+
+function sameList(a: string[] | undefined, b: string[] | undefined): boolean {
+  if (a === b) return true
+  if (!a || !b || a.length !== b.length) return false
+  return a.every((item, index) => item === b[index])
+}
+
+/**
+ * Renders a derived state onto Cytoscape, replacing whatever was shown before.
+ * Given the `previous` state already on screen, only the elements whose
+ * classes or label differ are touched, in one batch, which keeps stepping
+ * through large graphs cheap.
+ */
+export function applyVisualState(cy: Core, visualState: VisualState, previous: VisualState | null = null) {
+  cy.batch(() => {
+    if (!previous) {
+      cy.elements().forEach(element => {
+        element.classes(visualState.classes[element.id()] ?? [])
+      })
+      cy.nodes().forEach(node => {
+        node.data('label', visualState.labels[node.id()] ?? node.id())
+      })
+      return
+    }
+
+    const classIds = new Set([...Object.keys(previous.classes), ...Object.keys(visualState.classes)])
+    for (const id of classIds) {
+      if (sameList(previous.classes[id], visualState.classes[id])) continue
+      cy.getElementById(id).classes(visualState.classes[id] ?? [])
+    }
+    const labelIds = new Set([...Object.keys(previous.labels), ...Object.keys(visualState.labels)])
+    for (const id of labelIds) {
+      if (previous.labels[id] === visualState.labels[id]) continue
+      const node = cy.getElementById(id)
+      if (node.nonempty()) node.data('label', visualState.labels[id] ?? id)
+    }
+  })
+}
@@ -0,0 +1,111 @@
+import { Core } from 'cytoscape'
+import { EDGE_DASHES } from './palette'
+import { BasePalette, LegendItem } from './types'
+
+export function downloadUrl(filename: string, url: string) {
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob)
+  downloadUrl(filename, url)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('Failed to load snapshot image'))
+    image.src = src
+  })
+}
+
+/**
+ * Draws the current Cytoscape view with the single-color legend entries
+ * underneath and returns it as a PNG data URI. The backdrop and text follow
+ * `palette`, so a dark-mode export looks like the page it came from.
+ */
+export async function renderSnapshot(cy: Core, legend: LegendItem[], palette: BasePalette): Promise<string> {
+  const scale = 2
+  const graph = await loadImage(cy.png({ full: true, scale, bg: palette.labelBackground }))
+  const entries = legend.filter(item => item.kind !== 'text' && item.color)
+
+  const padding = 12 * scale
+  const itemHeight = 20 * scale
+  const width = Math.max(graph.width, 480 * scale)
+  const canvas = document.createElement('canvas')
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D
+  context.font = `${13 * scale}px sans-serif`
+
+  // Lay legend entries out left to right, wrapping to new rows
+  const positions: Array<{ x: number, y: number }> = []
+  let x = padding
+  let y = graph.height + padding
+  for (const entry of entries) {
+    const itemWidth = 28 * scale + context.measureText(entry.label).width + 16 * scale
+    if (x + itemWidth > width - padding && x > padding) {
+      x = padding
+      y += itemHeight
+    }
+    positions.push({ x, y })
+    x += itemWidth
+  }
+
+  canvas.width = width
+  canvas.height = y + itemHeight + padding
+  context.fillStyle = palette.labelBackground
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.drawImage(graph, (width - graph.width) / 2, 0)
+  context.font = `${13 * scale}px sans-serif`
+  context.textBaseline = 'middle'
+
+  entries.forEach((entry, index) => {
+    const { x: left, y: top } = positions[index]
+    const middle = top + itemHeight / 2
+    context.fillStyle = entry.color as string
+    context.strokeStyle = entry.color as string
+    if (entry.kind === 'node') {
+      context.lineWidth = 3 * scale
+      context.setLineDash(entry.dashed ? [3 * scale, 2 * scale] : [])
+      context.beginPath()
+      context.arc(left + 10 * scale, middle, 6 * scale, 0, Math.PI * 2)
+      context.stroke()
+    } else {
+      // Same half-length dashes as the on-page legend
+      context.lineWidth = 4 * scale
+      context.setLineDash(EDGE_DASHES[entry.pattern ?? 'solid'].map(length => length / 2 * scale))
+      context.beginPath()
+      context.moveTo(left, middle)
+      context.lineTo(left + 20 * scale, middle)
+      context.stroke()
+    }
+    context.fillStyle = palette.label
+    context.fillText(entry.label, left + 28 * scale, middle)
+  })
+
+  return canvas.toDataURL('image/png')
+}
+
+/**
+ * Packs PNG frames into one animated SVG that shows each frame for `frameSeconds` and loops
+ */
+export async function buildAnimatedSvg(frames: string[], frameSeconds: number): Promise<string> {
+  const first = await loadImage(frames[0])
+  const { width, height } = first
+  const total = frames.length
+  const images = frames.map((frame, index) => {
+    const keyTimes = index === 0 ? `0;${1 / total}` : `0;${index / total};${(index + 1) / total}`
+    const values = index === 0 ? '1;0' : '0;1;0'
+    return `<image href="${frame}" width="${width}" height="${height}" opacity="${index === 0 ? 1 : 0}">` +
+      `<animate attributeName="opacity" calcMode="discrete" dur="${total * frameSeconds}s" ` +
+      `keyTimes="${keyTimes}" values="${values}" repeatCount="indefinite"/></image>`
+  })
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `${images.join('')}</svg>`
+}
@@ -0,0 +1,142 @@
+import cytoscape, { ElementDefinition, LayoutOptions, StylesheetCSS, StylesheetStyle } from 'cytoscape'
+
+// What the build passes to a component's `renderStaticGraph` export
+export type StaticGraphContext = {
+  // The files in source/_data, after the build scripts checked them
+  data: Record<string, unknown>
+}
+
+export type StaticGraphOptions = {
+  elements: ElementDefinition[]
+  // The live canvas's stylesheet, so the picture matches it
+  stylesheet: Array<StylesheetStyle | StylesheetCSS>
+  layout: LayoutOptions
+  // Height of the live canvas in pixels
+  height: number
+  // Read out by screen readers in place of the picture
+  title: string
+}
+
+const PADDING = 40
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char] as string)
+}
+
+function pixels(value: string): number {
+  return parseFloat(value) || 0
+}
+
+// One decimal is finer than a pixel and keeps the inlined markup small
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function point(x: number, y: number): string {
+  return `${round(x)},${round(y)}`
+}
+
+function drawNode(node: cytoscape.NodeSingular): string {
+  const { x, y } = node.position()
+  const width = node.width()
+  const height = node.height()
+  const fill = node.style('background-color')
+  const borderWidth = pixels(node.style('border-width'))
+  const stroke = borderWidth > 0
+    ? ` stroke="${node.style('border-color')}" stroke-width="${borderWidth}"${node.style('border-style') === 'dashed' ? ' stroke-dasharray="6 4"' : ''}`
+    : ''
+
+  switch (node.style('shape')) {
+    case 'rectangle':
+    case 'round-rectangle': {
+      const radius = node.style('shape') === 'round-rectangle' ? Math.min(width, height) / 4 : 0
+      return `<rect x="${round(x - width / 2)}" y="${round(y - height / 2)}" width="${round(width)}" height="${round(height)}" rx="${round(radius)}" fill="${fill}"${stroke}/>`
+    }
+    case 'diamond':
+      return `<polygon points="${point(x, y - height / 2)} ${point(x + width / 2, y)} ${point(x, y + height / 2)} ${point(x - width / 2, y)}" fill="${fill}"${stroke}/>`
+    default:
+      return `<ellipse cx="${round(x)}" cy="${round(y)}" rx="${round(width / 2)}" ry="${round(height / 2)}" fill="${fill}"${stroke}/>`
+  }
+}
+
+function drawLabel(node: cytoscape.NodeSingular): string {
+  const label = String(node.style('label') ?? '')
+  if (!label) return ''
+
+  const { x, y } = node.position()
+  const size = pixels(node.style('font-size')) || 14
+  const lines = label.split('\n')
+  const lineHeight = size * 1.2
+  const valign = node.style('text-valign')
+  // Baseline of the first line
+  const top = valign === 'top'
+    ? y - node.height() / 2 - 4 - (lines.length - 1) * lineHeight
+    : valign === 'bottom'
+      ? y + node.height() / 2 + size
+      : y - (lines.length - 1) * lineHeight / 2 + size / 3
+  const spans = lines
+    .map((line, index) => `<tspan x="${round(x)}" y="${round(top + index * lineHeight)}">${escapeXml(line)}</tspan>`)
+    .join('')
+  return `<text text-anchor="middle" font-size="${size}" font-weight="${node.style('font-weight')}" fill="${node.style('color')}">${spans}</text>`
+}
+
+function drawEdge(edge: cytoscape.EdgeSingular): string {
+  const source = edge.source()
+  const target = edge.target()
+  const color = edge.style('line-color')
+  const width = pixels(edge.style('width')) || 1
+  const dashes = edge.style('line-style') === 'solid' ? '' : ` stroke-dasharray="${width * 3} ${width * 2}"`
+
+  if (source.same(target)) {
+    const { x, y } = source.position()
+    const radius = source.height() / 2
+    return `<circle cx="${round(x)}" cy="${round(y - radius - 10)}" r="10" fill="none" stroke="${color}" stroke-width="${width}"${dashes}/>`
+  }
+
+  // Stop at the node borders so arrowheads stay visible
+  const from = source.position()
+  const to = target.position()
+  const length = Math.hypot(to.x - from.x, to.y - from.y) || 1
+  const dx = (to.x - from.x) / length
+  const dy = (to.y - from.y) / length
+  const start = { x: from.x + dx * source.width() / 2, y: from.y + dy * source.height() / 2 }
+  const end = { x: to.x - dx * target.width() / 2, y: to.y - dy * target.height() / 2 }
+
+  let svg = `<line x1="${round(start.x)}" y1="${round(start.y)}" x2="${round(end.x)}" y2="${round(end.y)}" stroke="${color}" stroke-width="${width}"${dashes}/>`
+  if (edge.style('target-arrow-shape') !== 'none') {
+    const size = 4 + width * 2
+    const base = { x: end.x - dx * size, y: end.y - dy * size }
+    svg += `<polygon points="${point(end.x, end.y)} ${point(base.x - dy * size / 2, base.y + dx * size / 2)} ${point(base.x + dy * size / 2, base.y - dx * size / 2)}" fill="${edge.style('target-arrow-color')}"/>`
+  }
+
+  const label = String(edge.style('label') ?? '')
+  if (label) {
+    const size = pixels(edge.style('font-size')) || 12
+    svg += `<text x="${round((start.x + end.x) / 2)}" y="${round((start.y + end.y) / 2)}" text-anchor="middle" font-size="${size}" fill="${edge.style('color')}">${escapeXml(label)}</text>`
+  }
+  return svg
+}
+
+/**
+ * Lays the elements out with headless Cytoscape and draws them as a static
+ * SVG. The build puts it on the page for readers without JavaScript, and the
+ * canvas shows it until Cytoscape takes over.
+ */
+export function renderGraphSvg({ elements, stylesheet, layout, height, title }: StaticGraphOptions): string {
+  const cy = cytoscape({ headless: true, styleEnabled: true, elements, style: stylesheet as StylesheetStyle[] })
+  try {
+    cy.layout({ ...layout, animate: false } as LayoutOptions).run()
+
+    const visible = cy.elements().filter(element => element.style('display') !== 'none')
+    // Label sizes are unknown without a canvas to measure them, so pad instead
+    const box = visible.boundingBox({ includeLabels: false })
+    const viewBox = [box.x1 - PADDING, box.y1 - PADDING, box.w + PADDING * 2, box.h + PADDING * 2].map(round).join(' ')
+
+    const edges = visible.edges().map(drawEdge).join('')
+    const nodes = visible.nodes().map(node => drawNode(node) + drawLabel(node)).join('')
+    return `<svg xmlns="http://www.w3.org/2000/svg" role="img" width="100%" height="${height}" viewBox="${viewBox}" font-family="sans-serif" style="display:block">`
+      + `<title>${escapeXml(title)}</title>${edges}${nodes}</svg>`
+  } finally {
+    cy.destroy()
+  }
+}
@@ -0,0 +1,169 @@
+import { CSSProperties } from 'react'
+
+// Translucent gray reads on the light, sunset and dark page backgrounds alike
+export const BORDER = '1px solid rgba(128, 128, 128, 0.35)'
+
+export const STYLES: Record<string, CSSProperties> = {
+  container: {
+    width: '100%',
+    // Shorter on small screens so the controls stay in reach
+    height: 'clamp(280px, 60vh, 420px)',
+    border: BORDER,
+    display: 'block',
+    position: 'relative' as const
+  },
+  // The fullscreen root keeps the page's colors instead of the browser's black backdrop
+  fullscreen: {
+    padding: 16,
+    overflowY: 'auto' as const,
+    backgroundColor: 'var(--hty-bg-color, #fff)',
+    color: 'var(--hty-text-color, inherit)'
+  },
+  fullscreenCanvas: {
+    height: '75vh'
+  },
+  controls: {
+    marginTop: 8,
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    flexWrap: 'wrap' as const
+  },
+  button: {
+    marginLeft: 8
+  },
+  timeline: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    width: '100%'
+  },
+  legend: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: 'transparent',
+    border: BORDER,
+    borderRadius: 4
+  },
+  legendTitle: {
+    fontWeight: 'bold',
+    marginBottom: 8,
+    fontSize: 14
+  },
+  legendItems: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: '16px'
+  },
+  legendItem: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: 13
+  },
+  legendColor: {
+    width: 20,
+    height: 3,
+    borderRadius: 2
+  },
+  legendNode: {
+    width: 12,
+    height: 12,
+    borderRadius: '50%',
+    borderWidth: 3,
+    borderStyle: 'solid'
+  },
+  narration: {
+    marginTop: 8,
+    border: BORDER,
+    borderRadius: 4,
+    fontSize: 14
+  },
+  narrationCurrent: {
+    padding: '8px 12px',
+    borderBottom: BORDER,
+    minHeight: '1.5em'
+  },
+  narrationHistory: {
+    margin: 0,
+    padding: '4px 12px 4px 36px',
+    maxHeight: 140,
+    overflowY: 'auto' as const,
+    fontSize: 13
+  },
+  narrationItem: {
+    cursor: 'pointer'
+  },
+  // History entries are buttons for the keyboard but read as plain text
+  narrationButton: {
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    color: 'inherit',
+    font: 'inherit',
+    textAlign: 'left' as const,
+    cursor: 'pointer'
+  },
+  codeRow: {
+    marginTop: 12,
+    display: 'flex',
+    gap: '8px',
+    flexWrap: 'wrap' as const,
+    alignItems: 'flex-start'
+  },
+  code: {
+    flex: 1,
+    minWidth: 280,
+    margin: 0,
+    padding: '8px 0',
+    fontSize: 13,
+    lineHeight: 1.5,
+    overflowX: 'auto' as const,
+    border: BORDER,
+    borderRadius: 4
+  },
+  codeLine: {
+    padding: '0 8px',
+    whiteSpace: 'pre' as const
+  },
+  codeLineActive: {
+    backgroundColor: 'rgba(250, 204, 21, 0.35)'
+  },
+  codeLineNumber: {
+    display: 'inline-block',
+    width: 24,
+    marginRight: 8,
+    textAlign: 'right' as const,
+    opacity: 0.5,
+    userSelect: 'none' as const
+  },
+  callStack: {
+    width: 180,
+    padding: 8,
+    border: BORDER,
+    borderRadius: 4,
+    fontSize: 13,
+    fontFamily: 'monospace'
+  },
+  frame: {
+    padding: '4px 6px',
+    marginBottom: 4,
+    border: BORDER,
+    borderRadius: 4
+  },
+  frameActive: {
+    borderColor: '#f97316'
+  },
+  // Read by screen readers but not drawn
+  visuallyHidden: {
+    position: 'absolute' as const,
+    width: 1,
+    height: 1,
+    padding: 0,
+    margin: -1,
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap' as const,
+    border: 0
+  }
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react'
+import { ThemeMode } from './types'
+
+/**
+ * The site's light / sunset / dark mode. The Yun mode handler
+ * (themes/yun/source/js/ui/mode-handler.js) restores it from localStorage and
+ * shows it as a class on <html>, so the class is the single source of truth.
+ */
+export function readThemeMode(): ThemeMode {
+  if (typeof document === 'undefined') return 'light'
+  const { classList } = document.documentElement
+  if (classList.contains('dark') || classList.contains('midnight')) return 'dark'
+  if (classList.contains('sunset')) return 'sunset'
+  return 'light'
+}
+
+/**
+ * The current theme mode, updated whenever the mode toggle changes the <html> class
+ */
+export function useThemeMode(): ThemeMode {
+  const [mode, setMode] = useState<ThemeMode>(readThemeMode)
+
+  useEffect(() => {
+    const observer = new MutationObserver(() => setMode(readThemeMode()))
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class'] })
+    // The class may have changed between the first render and now
+    setMode(readThemeMode())
+    return () => observer.disconnect()
+  }, [])
+
+  return mode
+}
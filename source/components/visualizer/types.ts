@@ -0,0 +1,110 @@
+import { KeyboardEvent } from 'react'
+
+// ============================================================================
+// Event Model
+// ============================================================================
+
+/**
+ * Narration attached to an event. `key` picks a template from a message
+ * table and `params` fill its `{name}` placeholders.
+ */
+export type Message = {
+  key: string
+  params: Record<string, string | number>
+}
+
+export type MessageTable = Record<string, string>
+
+/**
+ * One step of an algorithm trace. `id` names the Cytoscape element the event
+ * is about; visualizers extend it with their own payload fields.
+ */
+export type VisualizerEvent<TType extends string = string> = {
+  id: string
+  type: TType
+  line?: number
+  message?: Message
+}
+
+/**
+ * What every element looks like after replaying a prefix of the events
+ */
+export type VisualState = {
+  classes: Record<string, string[]>
+  labels: Record<string, string>
+}
+
+// ============================================================================
+// Locale
+// ============================================================================
+
+// Languages the string tables cover, named like the site's `language` setting
+export type Locale = 'zh-TW' | 'zh-CN' | 'en' | 'ja'
+
+// The same keys in every language, so a missing translation fails type-checking
+export type Translations<TKey extends string> = Record<Locale, Record<TKey, string>>
+
+// ============================================================================
+// Palette & Legend
+// ============================================================================
+
+// Mirrors the modes of the Yun theme's light / sunset / dark switch
+export type ThemeMode = 'light' | 'sunset' | 'dark'
+
+export type BasePalette = {
+  node: string
+  nodeVisiting: string
+  nodeCurrent: string
+  nodeVisited: string
+  edgeDefault: string
+  // Text drawn on the canvas and the backdrop behind edge labels
+  label: string
+  labelBackground: string
+}
+
+// Line styles that tell edge classes apart without relying on color
+export type EdgePattern = 'solid' | 'dashed' | 'dotted' | 'dash-dot'
+
+export type LegendItem = {
+  label: string
+  kind: 'edge' | 'node' | 'text'
+  color?: string
+  // Several swatches for one entry, e.g. the component colors
+  colors?: string[]
+  dashed?: boolean
+  // Line style of an edge swatch, matching its Cytoscape style
+  pattern?: EdgePattern
+  thickness?: number
+}
+
+// ============================================================================
+// Stepper
+// ============================================================================
+
+export type Stepper = {
+  step: number
+  totalSteps: number
+  isComplete: boolean
+  isPlaying: boolean
+  speed: number
+  setStep: (step: number) => void
+  setSpeed: (speed: number) => void
+  setIsPlaying: (isPlaying: boolean) => void
+  next: () => void
+  prev: () => void
+  seek: (step: number) => void
+  togglePlay: () => void
+  reset: () => void
+  handleKeyDown: (e: KeyboardEvent<HTMLElement>) => boolean
+}
+
+// ============================================================================
+// Viewport
+// ============================================================================
+
+export type Fullscreen = {
+  isFullscreen: boolean
+  // False where the browser cannot show an element fullscreen, e.g. on iPhones
+  isSupported: boolean
+  toggle: () => void
+}
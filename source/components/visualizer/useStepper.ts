@@ -0,0 +1,111 @@
+import { KeyboardEvent, useEffect, useState } from 'react'
+import { Stepper } from './types'
+
+export const PLAY_SPEEDS = [0.5, 1, 2, 4] // steps per second
+
+/**
+ * Form fields keep their native keyboard behavior instead of shortcuts
+ */
+export function isFormField(target: EventTarget): boolean {
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes((target as HTMLElement).tagName)
+}
+
+/**
+ * Step-through state for a trace of `totalSteps` events: manual stepping,
+ * seeking, autoplay at a chosen speed and the arrow / space / Home / End
+ * shortcuts.
+ * Autoplay advances `stride` steps per tick, so long traces can skip frames.
+ */
+export function useStepper(totalSteps: number, stride: number = 1): Stepper {
+  const [step, setStep] = useState<number>(0)
+  const [isPlaying, setIsPlaying] = useState<boolean>(false)
+  const [speed, setSpeed] = useState<number>(1)
+
+  // Autoplay: advance one step per tick until the end
+  useEffect(() => {
+    if (!isPlaying) return
+    if (step >= totalSteps) {
+      setIsPlaying(false)
+      return
+    }
+
+    const timer = setTimeout(() => {
+      setStep(current => Math.min(current + stride, totalSteps))
+    }, 1000 / speed)
+
+    return () => clearTimeout(timer)
+  }, [isPlaying, step, totalSteps, speed, stride])
+
+  const next = () => {
+    setStep(current => Math.min(current + 1, totalSteps))
+  }
+
+  const prev = () => {
+    setStep(current => Math.max(current - 1, 0))
+  }
+
+  const seek = (target: number) => {
+    setStep(Math.max(0, Math.min(target, totalSteps)))
+  }
+
+  const togglePlay = () => {
+    if (!isPlaying && step >= totalSteps) {
+      // Replay from the beginning once the end is reached
+      setStep(0)
+    }
+    setIsPlaying(!isPlaying)
+  }
+
+  const reset = () => {
+    setIsPlaying(false)
+    setStep(0)
+  }
+
+  /**
+   * Handles the stepping shortcuts and reports whether the key was consumed
+   */
+  const handleKeyDown = (e: KeyboardEvent<HTMLElement>): boolean => {
+    const target = e.target as HTMLElement
+    if (isFormField(target)) return false
+
+    if (e.key === 'ArrowRight') {
+      e.preventDefault()
+      next()
+      return true
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault()
+      prev()
+      return true
+    } else if (e.key === ' ' && target.tagName !== 'BUTTON') {
+      e.preventDefault()
+      togglePlay()
+      return true
+    } else if (e.key === 'Home') {
+      e.preventDefault()
+      reset()
+      return true
+    } else if (e.key === 'End') {
+      e.preventDefault()
+      seek(totalSteps)
+      return true
+    }
+    return false
+  }
+
+  return {
+    step,
+    totalSteps,
+    isComplete: step >= totalSteps,
+    isPlaying,
+    speed,
+    setStep,
+    setSpeed,
+    setIsPlaying,
+    next,
+    prev,
+    seek,
+    togglePlay,
+    reset,
+    handleKeyDown
+  }
+}
@@ -0,0 +1,79 @@
+import { MutableRefObject, RefObject, useCallback, useEffect, useState } from 'react'
+import { Core } from 'cytoscape'
+import { Fullscreen } from './types'
+
+// Space around the graph after fitting, the same as Cytoscape's layout default
+export const FIT_PADDING = 30
+// Each zoom button press scales by this much
+const ZOOM_STEP = 1.25
+
+export function fitGraph(cy: Core) {
+  cy.fit(undefined, FIT_PADDING)
+}
+
+/**
+ * Zooms around the middle of the canvas; a factor below 1 zooms out
+ */
+export function zoomGraph(cy: Core, factor: number = ZOOM_STEP) {
+  cy.zoom({ level: cy.zoom() * factor, renderedPosition: { x: cy.width() / 2, y: cy.height() / 2 } })
+}
+
+export function zoomOutGraph(cy: Core) {
+  zoomGraph(cy, 1 / ZOOM_STEP)
+}
+
+/**
+ * Cytoscape only notices window resizes, not a container that changes size
+ * because the sidebar folded or fullscreen started, so the canvas is resized
+ * and the graph fitted again whenever the container's size changes
+ */
+export function useFitOnResize(ref: RefObject<HTMLElement | null>, cyRef: MutableRefObject<Core | null>) {
+  useEffect(() => {
+    const element = ref.current
+    if (!element || typeof ResizeObserver === 'undefined') return
+
+    let size = { width: element.clientWidth, height: element.clientHeight }
+    let frame = 0
+    const observer = new ResizeObserver(() => {
+      // Observing reports the current size once; only real changes refit
+      if (element.clientWidth === size.width && element.clientHeight === size.height) return
+      size = { width: element.clientWidth, height: element.clientHeight }
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() => {
+        const cy = cyRef.current
+        if (!cy || cy.destroyed()) return
+        cy.resize()
+        fitGraph(cy)
+      })
+    })
+    observer.observe(element)
+    return () => {
+      observer.disconnect()
+      cancelAnimationFrame(frame)
+    }
+  }, [ref, cyRef])
+}
+
+/**
+ * Shows `ref` fullscreen and back, following Escape and the browser's own controls
+ */
+export function useFullscreen(ref: RefObject<HTMLElement | null>): Fullscreen {
+  const [isFullscreen, setIsFullscreen] = useState<boolean>(false)
+  const isSupported = typeof document !== 'undefined' && Boolean(document.fullscreenEnabled)
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement !== null && document.fullscreenElement === ref.current)
+    document.addEventListener('fullscreenchange', handleChange)
+    return () => document.removeEventListener('fullscreenchange', handleChange)
+  }, [ref])
+
+  const toggle = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {})
+    } else {
+      ref.current?.requestFullscreen().catch(() => {})
+    }
+  }, [ref])
+
+  return { isFullscreen, isSupported, toggle }
+}